@@ -1,21 +1,91 @@
+import { printEffectiveConfig } from './cli/config-show.js';
 import { parseArgs, printHelp } from './cli/options.js';
-import { printDetections, resolveMetric, resolveMonth, resolveSources } from './cli/prompts.js';
+import {
+	printDetections,
+	resolveFormat,
+	resolveGroupBy,
+	resolveMetric,
+	resolveRows,
+	resolveSessionSort,
+	resolveSources,
+	resolveTimeZone,
+	resolveTrendMonths,
+	resolveView,
+	resolveWindow,
+} from './cli/prompts.js';
 import { withSpinner } from './cli/spinner.js';
-import { detectSources, loadEntriesForSource } from './loaders.js';
-import { loadPricingStatus } from './pricing.js';
-import { aggregateCombinedSummary, aggregateSourceSummary } from './reporting/aggregate.js';
-import { renderSummaryChart } from './reporting/render.js';
+import { applyConfigDefaults, loadConfig } from './config.js';
+import { createJsonlSourceAdapter, loadRateLimitSnapshots } from './loaders.js';
+import { EMPTY_PRICING_OVERRIDES, loadPricingOverrides } from './pricing-overrides.js';
+import type { PricingContext, PricingSnapshot } from './pricing.js';
+import {
+	applyPricingOverrides,
+	loadPricingSnapshotAt,
+	loadPricingSnapshots,
+	loadPricingStatus,
+	registerModelAliases,
+} from './pricing.js';
+import {
+	aggregateBillingBlocks,
+	aggregateCombinedProfile,
+	aggregateCombinedSummary,
+	aggregateCombinedTrend,
+	aggregateModelPricing,
+	aggregateMonthlyTrend,
+	aggregateRateLimits,
+	aggregateSessions,
+	aggregateSourceSummary,
+	aggregateUsageProfile,
+	countSessionlessEntries,
+	DEFAULT_BUDGET_WARN_AT,
+	evaluateBudgets,
+	filterEntriesByProject,
+	forecastMonthEnd,
+	sortSessions,
+} from './reporting/aggregate.js';
+import {
+	buildJsonReport,
+	buildPricingExplainReport,
+	renderDelimitedDays,
+	renderDelimitedEntries,
+	renderJsonReport,
+} from './reporting/export.js';
+import {
+	formatBudgetLine,
+	formatForecastLine,
+	renderBillingBlocks,
+	renderBudgetWarnings,
+	renderDailyTable,
+	renderGroupChart,
+	renderHeatmap,
+	renderPricingExplain,
+	renderRateLimits,
+	renderSessionTable,
+	renderSummaryChart,
+	renderTrendChart,
+	renderUsageProfile,
+} from './reporting/render.js';
+import {
+	detectSources,
+	getSourceAdapter,
+	loadEntriesForSource,
+	loadSourcePlugin,
+	registerSourceAdapter,
+	sourceLabel,
+} from './sources.js';
 import type { SourceDetection, SourceKind, SourceSummary } from './types.js';
 import {
 	ansiEnabled,
 	bold,
 	color,
 	formatCurrency,
-	formatMonthHuman,
 	formatNumber,
-	SOURCE_LABELS,
+	formatWindowHuman,
+	tildifyPath,
 } from './utils.js';
 
+const DEFAULT_ROW_LIMIT = 20;
+
 function detectionBySource(detections: SourceDetection[]): Map<SourceKind, SourceDetection> {
 	const map = new Map<SourceKind, SourceDetection>();
 	for (const detection of detections) {
@@ -44,47 +114,288 @@ function pricingSourceLabel(source: string): string {
 }
 
 export async function runApp(argv: string[]): Promise<void> {
-	const options = parseArgs(argv);
-	if (options.help) {
+	const cliOptions = parseArgs(argv);
+	if (cliOptions.help) {
 		printHelp();
 		return;
 	}
 
-	const colorsEnabled = ansiEnabled(options.noColor);
-	const detections = await withSpinner('Detecting available sources...', colorsEnabled, detectSources);
+	const loadedConfig = await loadConfig();
+	const config = loadedConfig.config;
+	const options = applyConfigDefaults(cliOptions, config);
+	registerModelAliases(config.modelAliases ?? {});
+	for (const [id, definition] of Object.entries(config.customSources ?? {})) {
+		registerSourceAdapter(createJsonlSourceAdapter(id, definition));
+	}
+	for (const plugin of config.plugins ?? []) {
+		await loadSourcePlugin(plugin);
+	}
+	const extraRoots = config.roots ?? {};
+	// Throws for names that are not registered, now that config-declared sources are known.
+	for (const source of [
+		...(options.sources ?? []),
+		...Object.keys(extraRoots),
+		...Object.keys(options.budgets).filter((scope) => scope !== 'total'),
+	]) {
+		getSourceAdapter(source);
+	}
+
+	if (options.command === 'config-show') {
+		const detections = await detectSources(extraRoots);
+		await printEffectiveConfig(
+			loadedConfig,
+			cliOptions,
+			options,
+			detections,
+			ansiEnabled(options.noColor),
+		);
+		return;
+	}
+
+	const format = await resolveFormat(options);
+	const textOutput = format === 'text';
+	const colorsEnabled = textOutput && ansiEnabled(options.noColor);
+	const spin = <T>(message: string, work: () => Promise<T>): Promise<T> =>
+		textOutput ? withSpinner(message, colorsEnabled, work) : work();
+
+	const detections = await spin('Detecting available sources...', () => detectSources(extraRoots));
 	const available = detections.filter((item) => item.available);
 
 	if (available.length === 0) {
-		printDetections(detections, colorsEnabled);
-		console.error('\nNo usage data files were found for Claude/Codex sources.');
+		if (textOutput) {
+			printDetections(detections, colorsEnabled);
+		}
+		console.error('\nNo usage data files were found for any source.');
 		process.exitCode = 1;
 		return;
 	}
 
 	const selectedSources = await resolveSources(options, available);
-	const month = await resolveMonth(options);
+	const timeZone = await resolveTimeZone(options);
+	const window = await resolveWindow(options, timeZone);
+	const trendMonths = await resolveTrendMonths(options, timeZone);
 	const metric = await resolveMetric(options);
-	const monthLabel =
-		options.month == null || options.month.trim() === ''
-			? `This month (${formatMonthHuman(month)})`
-			: formatMonthHuman(month);
+	const groupBy = await resolveGroupBy(options);
+	const view = await resolveView(options);
+	if (view === 'blocks' && !selectedSources.includes('claude')) {
+		throw new Error('The blocks view needs Claude usage data. Include claude in --sources.');
+	}
+	if (view === 'limits' && !selectedSources.includes('codex')) {
+		throw new Error('The limits view needs Codex usage data. Include codex in --sources.');
+	}
+	const isDefaultWindow =
+		(options.month == null || options.month.trim() === '') &&
+		(options.since == null || options.since.trim() === '');
+	let windowLabel = formatWindowHuman(window);
+	if (trendMonths != null) {
+		windowLabel = `Last ${trendMonths.length} months (${windowLabel})`;
+	} else if (isDefaultWindow) {
+		windowLabel = `This month (${windowLabel})`;
+	}
 
 	const sourceMap = detectionBySource(detections);
-	console.log(`${bold('Agents Usage', colorsEnabled)}  ${color(monthLabel, '34', colorsEnabled)}`);
+	if (textOutput) {
+		console.log(`${bold('Agents Usage', colorsEnabled)}  ${color(windowLabel, '34', colorsEnabled)}`);
+	}
 
-	const loadedEntries = await withSpinner('Loading usage entries...', colorsEnabled, async () =>
-		Promise.all(selectedSources.map(async (source) => [source, await loadEntriesForSource(source)] as const)),
+	const loadedEntries = await spin('Loading usage entries...', async () =>
+		Promise.all(
+			selectedSources.map(async (source) => [source, await loadEntriesForSource(source, extraRoots)] as const),
+		),
 	);
 
+	const needsPricing = metric === 'cost' || options.command === 'pricing-explain';
 	const pricingStatus =
-		metric === 'cost'
-			? await withSpinner('Loading pricing data...', colorsEnabled, () => loadPricingStatus(options.offline))
+		needsPricing
+			? await spin('Loading pricing data...', () => loadPricingStatus(options.offline))
 			: { pricingMap: {}, isEmpty: false, source: 'unavailable' as const };
+	let snapshots: PricingSnapshot[] = [];
+	if (needsPricing) {
+		snapshots =
+			options.pricingDate != null
+				? [await loadPricingSnapshotAt(options.pricingDate)]
+				: await loadPricingSnapshots(window.start, window.endExclusive);
+	}
+	const pricing: PricingContext = {
+		pricingMap: applyPricingOverrides(pricingStatus.pricingMap, config.prices ?? {}),
+		snapshots: snapshots.map((snapshot) => ({
+			...snapshot,
+			pricingMap: applyPricingOverrides(snapshot.pricingMap, config.prices ?? {}),
+		})),
+		overrides: needsPricing ? await loadPricingOverrides(config.pricingOverrides) : EMPTY_PRICING_OVERRIDES,
+		strict: options.strictPricing,
+	};
+	const snapshotDates = snapshots.map((snapshot) => snapshot.date);
+
+	const filteredEntries = loadedEntries.map(
+		([source, entries]) => [source, filterEntriesByProject(entries, options.projects)] as const,
+	);
+
+	if (options.command === 'pricing-explain') {
+		const rows = aggregateModelPricing(
+			filteredEntries.flatMap(([, entries]) => entries),
+			window,
+			pricing,
+		);
+		if (format === 'json') {
+			console.log(renderJsonReport(buildPricingExplainReport(window, options.strictPricing, rows)));
+		} else {
+			console.log(`Pricing source: ${color(pricingSourceLabel(pricingStatus.source), '34', colorsEnabled)}`);
+			console.log('');
+			console.log(renderPricingExplain(rows, colorsEnabled, options.strictPricing));
+		}
+		return;
+	}
+
+	if (format === 'csv' || format === 'tsv') {
+		const rows = await resolveRows(options);
+		if (rows === 'entries') {
+			console.log(
+				renderDelimitedEntries(
+					filteredEntries.flatMap(([, entries]) => entries),
+					window,
+					pricing,
+					metric === 'cost',
+					format,
+				),
+			);
+			return;
+		}
+	}
+
+	const summaries: SourceSummary[] = filteredEntries.map(([source, entries]) => {
+		const label = sourceMap.get(source)?.label ?? sourceLabel(source);
+		return aggregateSourceSummary(
+			source,
+			label,
+			window,
+			entries,
+			pricing,
+			metric === 'cost',
+		);
+	});
+
+	const combined = aggregateCombinedSummary(window, summaries);
+	const budgetsConfigured = Object.keys(options.budgets).length > 0;
+	const hasBudgets = metric === 'cost' && budgetsConfigured;
+	const budgets = hasBudgets
+		? evaluateBudgets(options.budgets, options.warnAt ?? DEFAULT_BUDGET_WARN_AT, summaries, combined)
+		: [];
+	if (options.nonInteractive && budgets.some((status) => status.level === 'exceeded')) {
+		process.exitCode = 2;
+	}
+	if (!textOutput) {
+		for (const line of renderBudgetWarnings(budgets, false)) {
+			console.error(line);
+		}
+	}
+	const trend =
+		trendMonths == null
+			? undefined
+			: (() => {
+					const sources = filteredEntries.map(([source, entries]) =>
+						aggregateMonthlyTrend(
+							source,
+							sourceMap.get(source)?.label ?? sourceLabel(source),
+							trendMonths,
+							entries,
+							pricing,
+							metric === 'cost',
+							timeZone,
+						),
+					);
+					return { sources, combined: aggregateCombinedTrend(trendMonths, sources) };
+				})();
+
+	const sessions =
+		view === 'sessions'
+			? sortSessions(
+					aggregateSessions(
+						filteredEntries.flatMap(([, entries]) => entries),
+						window,
+						pricing,
+						metric === 'cost',
+					),
+					await resolveSessionSort(options, metric),
+				)
+			: undefined;
+
+	const blocks =
+		view === 'blocks'
+			? aggregateBillingBlocks(
+					filteredEntries.flatMap(([source, entries]) => (source === 'claude' ? entries : [])),
+					window,
+					pricing,
+					metric === 'cost',
+				)
+			: undefined;
+
+	const rateLimits =
+		view === 'limits'
+			? aggregateRateLimits(
+					await spin('Loading rate-limit snapshots...', () => loadRateLimitSnapshots(extraRoots.codex)),
+					window,
+				)
+			: undefined;
+
+	if (format === 'json') {
+		const report = buildJsonReport({
+			window,
+			metric,
+			groupBy,
+			projectFilter: options.projects,
+			pricing:
+				metric === 'cost'
+					? {
+							source: pricingStatus.source,
+							isEmpty: pricingStatus.isEmpty,
+							snapshots: snapshotDates,
+							pinnedDate: options.pricingDate ?? null,
+						}
+					: null,
+			detections,
+			summaries,
+			combined,
+			...(trend != null ? { trend } : {}),
+			...(sessions != null ? { sessions: sessions.slice(0, options.top ?? sessions.length) } : {}),
+			...(blocks != null ? { blocks: blocks.slice(-(options.top ?? blocks.length)) } : {}),
+			...(rateLimits != null ? { rateLimits } : {}),
+			...(hasBudgets ? { budgets } : {}),
+		});
+		console.log(renderJsonReport(report));
+		return;
+	}
+	if (format === 'csv' || format === 'tsv') {
+		console.log(renderDelimitedDays(summaries, format));
+		return;
+	}
 
 	if (metric === 'cost') {
 		console.log(`Pricing source: ${color(pricingSourceLabel(pricingStatus.source), '34', colorsEnabled)}`);
 	}
 
+	if (options.pricingDate != null) {
+		console.log(
+			`Pricing snapshot: ${color(snapshotDates[0] ?? '', '34', colorsEnabled)} (pinned to ${options.pricingDate})`,
+		);
+	} else if (snapshotDates.length > 0) {
+		const first = snapshotDates[0] ?? '';
+		const last = snapshotDates[snapshotDates.length - 1] ?? '';
+		const label = first === last ? first : `${first} … ${last} (${snapshotDates.length})`;
+		console.log(color(`Pricing snapshots: ${label}`, '90', colorsEnabled));
+	}
+
+	if (pricing.overrides.file != null) {
+		const { file, models, discounts } = pricing.overrides;
+		console.log(
+			color(
+				`Pricing overrides: ${tildifyPath(file)} (${models.length} model rates, ${discounts.length} discounts)`,
+				'90',
+				colorsEnabled,
+			),
+		);
+	}
+
 	if (metric === 'cost' && pricingStatus.isEmpty) {
 		console.log(
 			color(
@@ -95,19 +406,6 @@ export async function runApp(argv: string[]): Promise<void> {
 		);
 	}
 
-	const summaries: SourceSummary[] = loadedEntries.map(([source, entries]) => {
-		const label = sourceMap.get(source)?.label ?? SOURCE_LABELS[source];
-		return aggregateSourceSummary(
-			source,
-			label,
-			month,
-			entries,
-			pricingStatus.pricingMap,
-			metric === 'cost',
-		);
-	});
-
-	const combined = aggregateCombinedSummary(month, summaries);
 	if (metric === 'cost') {
 		console.log(
 			`Total cost (all CLIs): ${bold(color(formatCurrency(combined.totalCostUSD), '32', colorsEnabled), colorsEnabled)}`,
@@ -117,14 +415,134 @@ export async function runApp(argv: string[]): Promise<void> {
 			`Total tokens (all CLIs): ${bold(color(formatNumber(combined.totalTokens), '32', colorsEnabled), colorsEnabled)}`,
 		);
 	}
+	const totalBudget = budgets.find((status) => status.scope === 'total');
+	if (totalBudget != null) {
+		console.log(`Budget (all CLIs): ${formatBudgetLine(totalBudget, colorsEnabled)}`);
+	}
+	const combinedForecast = view === 'summary' && summaries.length > 1 ? forecastMonthEnd(combined, metric) : null;
+	if (combinedForecast != null) {
+		console.log(`Forecast (all CLIs): ${formatForecastLine(combinedForecast, colorsEnabled, totalBudget)}`);
+	}
+	for (const line of renderBudgetWarnings(budgets, colorsEnabled)) {
+		console.log(line);
+	}
+	if (hasBudgets && window.month == null) {
+		console.log(color('Budgets are monthly and only checked for single-month ranges.', '90', colorsEnabled));
+	}
+	if (budgetsConfigured && metric !== 'cost') {
+		console.log(color('Budgets are in USD and only checked with --metric cost.', '90', colorsEnabled));
+	}
+
+	if (groupBy === 'model') {
+		console.log('');
+		console.log(renderGroupChart('By model', combined.models, metric, colorsEnabled, 'Model'));
+		return;
+	}
+	if (groupBy === 'project') {
+		console.log('');
+		console.log(renderGroupChart('By project', combined.projects, metric, colorsEnabled, 'Project', true));
+		return;
+	}
+
+	if (trend != null) {
+		for (const sourceTrend of trend.sources) {
+			console.log('');
+			console.log(renderTrendChart(sourceTrend, metric, colorsEnabled));
+		}
+		if (trend.sources.length > 1) {
+			console.log('');
+			console.log(renderTrendChart(trend.combined, metric, colorsEnabled));
+		}
+		return;
+	}
+
+	if (view === 'daily' || view === 'heatmap') {
+		const renderView = view === 'daily' ? renderDailyTable : renderHeatmap;
+		for (const summary of summaries) {
+			console.log('');
+			console.log(renderView(summary, metric, colorsEnabled));
+		}
+		if (summaries.length > 1) {
+			console.log('');
+			console.log(renderView(combined, metric, colorsEnabled));
+		}
+		return;
+	}
+
+	if (sessions != null) {
+		console.log('');
+		console.log(
+			renderSessionTable(
+				sessions.slice(0, options.top ?? DEFAULT_ROW_LIMIT),
+				sessions.length,
+				countSessionlessEntries(filteredEntries.flatMap(([, entries]) => entries), window),
+				metric,
+				colorsEnabled,
+				timeZone,
+			),
+		);
+		return;
+	}
+
+	if (blocks != null) {
+		console.log('');
+		console.log(
+			renderBillingBlocks(
+				blocks.slice(-(options.top ?? DEFAULT_ROW_LIMIT)),
+				blocks.length,
+				metric,
+				colorsEnabled,
+				timeZone,
+			),
+		);
+		return;
+	}
+
+	if (rateLimits != null) {
+		console.log('');
+		console.log(renderRateLimits(rateLimits, colorsEnabled));
+		return;
+	}
+
+	if (view === 'profile') {
+		const profiles = filteredEntries.map(([source, entries]) =>
+			aggregateUsageProfile(
+				source,
+				sourceMap.get(source)?.label ?? sourceLabel(source),
+				window,
+				entries,
+				pricing,
+				metric === 'cost',
+				timeZone,
+			),
+		);
+		for (const profile of profiles) {
+			console.log('');
+			console.log(renderUsageProfile(profile, metric, colorsEnabled));
+		}
+		if (profiles.length > 1) {
+			console.log('');
+			console.log(renderUsageProfile(aggregateCombinedProfile(timeZone, profiles), metric, colorsEnabled));
+		}
+		return;
+	}
 
 	const sourceMetricValues = summaries.map((item) =>
 		metric === 'cost' ? item.totalCostUSD : item.totalTokens,
 	);
 	const referenceMax = Math.max(0, ...sourceMetricValues);
 
-	for (let index = 0; index < summaries.length; index += 1) {
+	for (const summary of summaries) {
 		console.log('');
-		console.log(renderSummaryChart(summaries[index]!, metric, colorsEnabled, referenceMax));
+		console.log(
+			renderSummaryChart(
+				summary,
+				metric,
+				colorsEnabled,
+				referenceMax,
+				budgets.find((status) => status.scope === summary.source),
+				forecastMonthEnd(summary, metric),
+			),
+		);
 	}
 }
@@ -0,0 +1,138 @@
+import type { CliOptions } from './options.js';
+import type { LoadedConfig } from '../config.js';
+import type { PriceField, PricingRecord } from '../pricing.js';
+import type { SourceDetection } from '../types.js';
+import { DEFAULT_PRICING_OVERRIDES_FILE } from '../pricing-overrides.js';
+import { listModelAliases } from '../pricing.js';
+import { DEFAULT_BUDGET_WARN_AT } from '../reporting/aggregate.js';
+import { bold, color, formatCurrency, normalizeTimeZone, tildifyPath } from '../utils.js';
+import { defaultSources, resolveMetric } from './prompts.js';
+
+const PRICE_LABELS: Array<[PriceField, string]> = [
+	['input_cost_per_token', 'input'],
+	['output_cost_per_token', 'output'],
+	['cache_creation_input_token_cost', 'cache write'],
+	['cache_creation_input_token_cost_above_1hr', 'cache write 1h'],
+	['cache_read_input_token_cost', 'cache read'],
+];
+
+function formatPerMillion(costPerToken: number): string {
+	return `${formatCurrency(costPerToken * 1_000_000)}/M`;
+}
+
+function formatPriceRecord(record: PricingRecord): string {
+	const parts = PRICE_LABELS.flatMap(([field, label]) => {
+		const value = record[field];
+		return value == null ? [] : [`${label} ${formatPerMillion(value)}`];
+	});
+	if (record.web_search_cost_per_request != null) {
+		parts.push(`web search ${formatCurrency(record.web_search_cost_per_request * 1000)}/1K`);
+	}
+	const tiered = Object.keys(record).some((field) => field.endsWith('_above_200k_tokens'));
+	return [...parts, ...(tiered ? ['+ >200k tiers'] : [])].join(', ');
+}
+
+function section(title: string, colorsEnabled: boolean): string {
+	return bold(color(title, '34', colorsEnabled), colorsEnabled);
+}
+
+// `cliOptions` is what was typed on the command line; `options` has config defaults applied.
+export async function printEffectiveConfig(
+	loaded: LoadedConfig,
+	cliOptions: CliOptions,
+	options: CliOptions,
+	detections: SourceDetection[],
+	colorsEnabled: boolean,
+): Promise<void> {
+	const originOf = (key: string, fromFlag: boolean): string => {
+		if (fromFlag) {
+			return 'flag';
+		}
+		const file = loaded.origins[key];
+		return file != null ? tildifyPath(file) : 'default';
+	};
+	const dim = (text: string): string => color(text, '90', colorsEnabled);
+
+	const lines = [section('Config files', colorsEnabled)];
+	if (loaded.files.length === 0) {
+		lines.push(dim('  none found'));
+	}
+	for (const file of loaded.files) {
+		lines.push(`  ${tildifyPath(file)}`);
+	}
+
+	const timeZone = options.utc ? 'UTC' : normalizeTimeZone(options.timeZone ?? 'local');
+	const settings: Array<[string, string, string]> = [
+		[
+			'sources',
+			(options.sources ?? defaultSources(detections.filter((item) => item.available))).join(', '),
+			originOf('sources', cliOptions.sources != null),
+		],
+		['metric', await resolveMetric(options), originOf('metric', cliOptions.metric != null)],
+		['timeZone', timeZone, originOf('timeZone', cliOptions.timeZone != null || cliOptions.utc)],
+		[
+			'warnAt',
+			(options.warnAt ?? DEFAULT_BUDGET_WARN_AT).map((value) => `${value}%`).join(', '),
+			originOf('warnAt', cliOptions.warnAt != null),
+		],
+	];
+	settings.push([
+		'strictPricing',
+		String(options.strictPricing),
+		originOf('strictPricing', cliOptions.strictPricing),
+	]);
+	settings.push([
+		'pricingOverrides',
+		tildifyPath(loaded.config.pricingOverrides ?? DEFAULT_PRICING_OVERRIDES_FILE),
+		originOf('pricingOverrides', false),
+	]);
+	if (loaded.config.plugins != null && loaded.config.plugins.length > 0) {
+		settings.push(['plugins', loaded.config.plugins.map(tildifyPath).join(', '), originOf('plugins', false)]);
+	}
+	for (const [scope, amount] of Object.entries(options.budgets)) {
+		if (amount == null) {
+			continue;
+		}
+		const fromFlag = Object.hasOwn(cliOptions.budgets, scope);
+		settings.push([`budget.${scope}`, formatCurrency(amount), originOf(`budgets.${scope}`, fromFlag)]);
+	}
+	const nameWidth = Math.max(...settings.map(([name]) => name.length));
+	const valueWidth = Math.max(...settings.map(([, value]) => value.length));
+	lines.push('');
+	lines.push(section('Settings', colorsEnabled));
+	for (const [name, value, origin] of settings) {
+		lines.push(`  ${name.padEnd(nameWidth)}  ${value.padEnd(valueWidth)}  ${dim(origin)}`);
+	}
+
+	lines.push('');
+	lines.push(section('Log roots', colorsEnabled));
+	for (const detection of detections) {
+		lines.push(`  ${detection.source.padEnd(8)}${detection.roots.map(tildifyPath).join(', ')}`);
+	}
+
+	const aliases = listModelAliases();
+	lines.push('');
+	lines.push(section('Model aliases', colorsEnabled));
+	const aliasWidth = Math.max(0, ...aliases.map(([model]) => model.length));
+	const targetWidth = Math.max(0, ...aliases.map(([, target]) => target.length));
+	for (const [model, target] of aliases) {
+		const origin = loaded.origins[`modelAliases.${model}`];
+		lines.push(
+			`  ${model.padEnd(aliasWidth)} → ${target.padEnd(targetWidth)}  ${dim(origin != null ? tildifyPath(origin) : 'built-in')}`,
+		);
+	}
+
+	const prices = Object.entries(loaded.config.prices ?? {});
+	if (prices.length > 0) {
+		lines.push('');
+		lines.push(section('Price overrides', colorsEnabled));
+		const modelWidth = Math.max(...prices.map(([model]) => model.length));
+		for (const [model, record] of prices) {
+			lines.push(
+				`  ${model.padEnd(modelWidth)}  ${formatPriceRecord(record)}  ${dim(originOf(`prices.${model}`, false))}`,
+			);
+		}
+	}
+
+	console.log(lines.join('\n'));
+}
@@ -1,32 +1,52 @@
-import type { MetricKind, SourceKind } from '../types.js';
+import type {
+	BudgetScope,
+	FormatKind,
+	GroupKind,
+	MetricKind,
+	RowKind,
+	SessionSortKind,
+	SourceKind,
+	ViewKind,
+} from '../types.js';
+import { resolveSourceName, SOURCE_ID_PATTERN } from '../sources.js';
 import { splitCommaList } from '../utils.js';
 
+export type CommandKind = 'config-show' | 'pricing-explain';
+
 export type CliOptions = {
+	command?: CommandKind;
 	sources?: SourceKind[];
 	month?: string;
+	since?: string;
+	until?: string;
+	months?: number;
 	metric?: MetricKind;
+	groupBy?: GroupKind;
+	view?: ViewKind;
+	top?: number;
+	sort?: SessionSortKind;
+	timeZone?: string;
+	utc: boolean;
+	projects: string[];
+	format?: FormatKind;
+	rows?: RowKind;
+	budgets: Partial<Record<BudgetScope, number>>;
+	warnAt?: number[];
+	pricingDate?: string;
+	strictPricing: boolean;
 	offline: boolean;
 	noColor: boolean;
 	nonInteractive: boolean;
 	help: boolean;
 };
 
-function parseSourceKind(input: string): SourceKind | null {
-	switch (input) {
-		case 'claude':
-		case 'cloud':
-		case 'cloudcode':
-		case 'cloud-code':
-			return 'claude';
-		case 'codex':
-		case 'codecs':
-			return 'codex';
-		default:
-			return null;
-	}
+// Sources declared in the config file are registered after arguments are parsed, so other
+// well-formed names pass here and are checked against the registry in `runApp`.
+export function parseSourceKind(input: string): SourceKind | null {
+	return resolveSourceName(input) ?? (SOURCE_ID_PATTERN.test(input) ? input : null);
 }
 
-function parseMetric(input: string): MetricKind | null {
+export function parseMetric(input: string): MetricKind | null {
 	const normalized = input.trim().toLowerCase();
 	if (normalized === 'cost' || normalized === 'usd' || normalized === '1') {
 		return 'cost';
@@ -37,8 +57,169 @@ function parseMetric(input: string): MetricKind | null {
 	return null;
 }
 
+function parseGroupKind(input: string): GroupKind | null {
+	const normalized = input.trim().toLowerCase();
+	if (normalized === 'source' || normalized === 'sources') {
+		return 'source';
+	}
+	if (normalized === 'model' || normalized === 'models') {
+		return 'model';
+	}
+	if (normalized === 'project' || normalized === 'projects' || normalized === 'repo') {
+		return 'project';
+	}
+	return null;
+}
+
+function parseView(input: string): ViewKind | null {
+	const normalized = input.trim().toLowerCase();
+	if (normalized === 'summary' || normalized === 'chart') {
+		return 'summary';
+	}
+	if (normalized === 'daily' || normalized === 'days' || normalized === 'day') {
+		return 'daily';
+	}
+	if (normalized === 'heatmap' || normalized === 'calendar') {
+		return 'heatmap';
+	}
+	if (normalized === 'profile' || normalized === 'hourly' || normalized === 'hours') {
+		return 'profile';
+	}
+	if (normalized === 'sessions' || normalized === 'session') {
+		return 'sessions';
+	}
+	if (normalized === 'blocks' || normalized === 'block') {
+		return 'blocks';
+	}
+	if (normalized === 'limits' || normalized === 'rate-limits' || normalized === 'ratelimits') {
+		return 'limits';
+	}
+	return null;
+}
+
+function parseSessionSort(input: string): SessionSortKind | null {
+	const normalized = input.trim().toLowerCase();
+	switch (normalized) {
+		case 'cost':
+		case 'tokens':
+		case 'start':
+		case 'duration':
+			return normalized;
+		case 'time':
+			return 'start';
+		default:
+			return null;
+	}
+}
+
+function parseTopCount(input: string): number {
+	const trimmed = input.trim();
+	const count = Number(trimmed);
+	if (!/^\d+$/.test(trimmed) || count < 1) {
+		throw new Error(`Invalid count "${input}". Use a positive whole number.`);
+	}
+	return count;
+}
+
+function parseFormat(input: string): FormatKind | null {
+	const normalized = input.trim().toLowerCase();
+	if (normalized === 'text' || normalized === 'pretty') {
+		return 'text';
+	}
+	if (normalized === 'json') {
+		return 'json';
+	}
+	if (normalized === 'csv') {
+		return 'csv';
+	}
+	if (normalized === 'tsv') {
+		return 'tsv';
+	}
+	return null;
+}
+
+function parseRowKind(input: string): RowKind | null {
+	const normalized = input.trim().toLowerCase();
+	if (normalized === 'days' || normalized === 'day' || normalized === 'daily') {
+		return 'days';
+	}
+	if (normalized === 'entries' || normalized === 'entry' || normalized === 'raw') {
+		return 'entries';
+	}
+	return null;
+}
+
+function parseMonthCount(input: string): number {
+	const trimmed = input.trim();
+	const count = Number(trimmed);
+	if (!/^\d+$/.test(trimmed) || !Number.isInteger(count) || count < 2 || count > 60) {
+		throw new Error(`Invalid month count "${input}". Use a whole number from 2 to 60.`);
+	}
+	return count;
+}
+
+function parseAmountUSD(input: string): number | null {
+	const trimmed = input.trim().replace(/^\$/, '');
+	const amount = Number(trimmed);
+	if (!/^\d+(\.\d+)?$/.test(trimmed) || !Number.isFinite(amount) || amount <= 0) {
+		return null;
+	}
+	return amount;
+}
+
+// Accepts "300" (all CLIs combined) or "claude=300,codex=150".
+function parseBudgets(input: string, budgets: Partial<Record<BudgetScope, number>>): void {
+	for (const part of splitCommaList(input)) {
+		const separator = part.indexOf('=');
+		const rawScope = separator === -1 ? 'total' : part.slice(0, separator).trim().toLowerCase();
+		const scope: BudgetScope | null =
+			rawScope === 'total' || rawScope === 'all' ? 'total' : parseSourceKind(rawScope);
+		if (scope == null) {
+			throw new Error(`Unknown budget scope "${rawScope}". Use: total or a source id such as claude`);
+		}
+		const amount = parseAmountUSD(separator === -1 ? part : part.slice(separator + 1));
+		if (amount == null) {
+			throw new Error(`Invalid budget "${part}". Use a positive USD amount, e.g. claude=300.`);
+		}
+		budgets[scope] = amount;
+	}
+}
+
+// Budget warning thresholds, for --warn-at and "warnAt" in the config file.
+export function isWarnAtPercent(value: unknown): value is number {
+	return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 1000;
+}
+
+function parseWarnAt(input: string): number[] {
+	const values = splitCommaList(input).map((part) => {
+		const trimmed = part.trim().replace(/%$/, '');
+		const value = Number(trimmed);
+		if (!/^\d+$/.test(trimmed) || !isWarnAtPercent(value)) {
+			throw new Error(`Invalid warning threshold "${part}". Use whole percentages from 1 to 1000, e.g. 50,80.`);
+		}
+		return value;
+	});
+	if (values.length === 0) {
+		throw new Error('Missing value after --warn-at');
+	}
+	return [...new Set(values)].sort((left, right) => left - right);
+}
+
+function parsePricingDate(input: string): string {
+	const trimmed = input.trim();
+	const date = new Date(`${trimmed}T00:00:00Z`);
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed) || Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid pricing date "${input}". Use YYYY-MM-DD.`);
+	}
+	return trimmed;
+}
+
 export function parseArgs(argv: string[]): CliOptions {
 	const options: CliOptions = {
+		projects: [],
+		budgets: {},
+		strictPricing: false,
+		utc: false,
 		offline: false,
 		noColor: false,
 		nonInteractive: false,
@@ -51,10 +232,33 @@ export function parseArgs(argv: string[]): CliOptions {
 			continue;
 		}
 
+		if (i === 0 && arg === 'config') {
+			const subcommand = argv[i + 1];
+			if (subcommand !== 'show') {
+				throw new Error(`Unknown config command "${subcommand ?? ''}". Use: config show`);
+			}
+			i += 1;
+			options.command = 'config-show';
+			continue;
+		}
+		if (i === 0 && arg === 'pricing') {
+			const subcommand = argv[i + 1];
+			if (subcommand !== 'explain') {
+				throw new Error(`Unknown pricing command "${subcommand ?? ''}". Use: pricing explain`);
+			}
+			i += 1;
+			options.command = 'pricing-explain';
+			continue;
+		}
+
 		if (arg === '--help' || arg === '-h') {
 			options.help = true;
 			continue;
 		}
+		if (arg === '--strict-pricing') {
+			options.strictPricing = true;
+			continue;
+		}
 		if (arg === '--offline') {
 			options.offline = true;
 			continue;
@@ -63,6 +267,10 @@ export function parseArgs(argv: string[]): CliOptions {
 			options.noColor = true;
 			continue;
 		}
+		if (arg === '--utc') {
+			options.utc = true;
+			continue;
+		}
 		if (arg === '--non-interactive') {
 			options.nonInteractive = true;
 			continue;
@@ -77,7 +285,7 @@ export function parseArgs(argv: string[]): CliOptions {
 			const parsed = splitCommaList(raw).map((part) => {
 				const source = parseSourceKind(part.toLowerCase());
 				if (source == null) {
-					throw new Error(`Unknown source "${part}". Use: claude,codex`);
+					throw new Error(`Unknown source "${part}". Use: claude,codex,gemini,otel`);
 				}
 				return source;
 			});
@@ -89,7 +297,7 @@ export function parseArgs(argv: string[]): CliOptions {
 			const parsed = splitCommaList(raw).map((part) => {
 				const source = parseSourceKind(part.toLowerCase());
 				if (source == null) {
-					throw new Error(`Unknown source "${part}". Use: claude,codex`);
+					throw new Error(`Unknown source "${part}". Use: claude,codex,gemini,otel`);
 				}
 				return source;
 			});
@@ -111,6 +319,48 @@ export function parseArgs(argv: string[]): CliOptions {
 			continue;
 		}
 
+		if (arg === '--since') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --since');
+			}
+			i += 1;
+			options.since = raw.trim();
+			continue;
+		}
+		if (arg.startsWith('--since=')) {
+			options.since = arg.slice('--since='.length).trim();
+			continue;
+		}
+
+		if (arg === '--until') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --until');
+			}
+			i += 1;
+			options.until = raw.trim();
+			continue;
+		}
+		if (arg.startsWith('--until=')) {
+			options.until = arg.slice('--until='.length).trim();
+			continue;
+		}
+
+		if (arg === '--months') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --months');
+			}
+			i += 1;
+			options.months = parseMonthCount(raw);
+			continue;
+		}
+		if (arg.startsWith('--months=')) {
+			options.months = parseMonthCount(arg.slice('--months='.length));
+			continue;
+		}
+
 		if (arg === '--metric') {
 			const raw = argv[i + 1];
 			if (raw == null) {
@@ -133,6 +383,200 @@ export function parseArgs(argv: string[]): CliOptions {
 			continue;
 		}
 
+		if (arg === '--by') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --by');
+			}
+			i += 1;
+			const groupBy = parseGroupKind(raw);
+			if (groupBy == null) {
+				throw new Error(`Unknown grouping "${raw}". Use: source, model or project`);
+			}
+			options.groupBy = groupBy;
+			continue;
+		}
+		if (arg.startsWith('--by=')) {
+			const groupBy = parseGroupKind(arg.slice('--by='.length));
+			if (groupBy == null) {
+				throw new Error(`Unknown grouping "${arg.slice('--by='.length)}". Use: source, model or project`);
+			}
+			options.groupBy = groupBy;
+			continue;
+		}
+
+		if (arg === '--view' || arg === '-v') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --view');
+			}
+			i += 1;
+			const view = parseView(raw);
+			if (view == null) {
+				throw new Error(`Unknown view "${raw}". Use: summary, daily, heatmap, profile, sessions, blocks or limits`);
+			}
+			options.view = view;
+			continue;
+		}
+		if (arg.startsWith('--view=')) {
+			const view = parseView(arg.slice('--view='.length));
+			if (view == null) {
+				throw new Error(`Unknown view "${arg.slice('--view='.length)}". Use: summary, daily, heatmap, profile, sessions, blocks or limits`);
+			}
+			options.view = view;
+			continue;
+		}
+
+		if (arg === '--top') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --top');
+			}
+			i += 1;
+			options.top = parseTopCount(raw);
+			continue;
+		}
+		if (arg.startsWith('--top=')) {
+			options.top = parseTopCount(arg.slice('--top='.length));
+			continue;
+		}
+
+		if (arg === '--sort') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --sort');
+			}
+			i += 1;
+			const sort = parseSessionSort(raw);
+			if (sort == null) {
+				throw new Error(`Unknown sort "${raw}". Use: cost, tokens, start or duration`);
+			}
+			options.sort = sort;
+			continue;
+		}
+		if (arg.startsWith('--sort=')) {
+			const sort = parseSessionSort(arg.slice('--sort='.length));
+			if (sort == null) {
+				throw new Error(`Unknown sort "${arg.slice('--sort='.length)}". Use: cost, tokens, start or duration`);
+			}
+			options.sort = sort;
+			continue;
+		}
+
+		if (arg === '--timezone' || arg === '--tz') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --timezone');
+			}
+			i += 1;
+			options.timeZone = raw.trim();
+			continue;
+		}
+		if (arg.startsWith('--timezone=') || arg.startsWith('--tz=')) {
+			options.timeZone = arg.slice(arg.indexOf('=') + 1).trim();
+			continue;
+		}
+
+		if (arg === '--project' || arg === '-p') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --project');
+			}
+			i += 1;
+			options.projects.push(...splitCommaList(raw));
+			continue;
+		}
+		if (arg.startsWith('--project=')) {
+			options.projects.push(...splitCommaList(arg.slice('--project='.length)));
+			continue;
+		}
+
+		if (arg === '--format' || arg === '-f') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --format');
+			}
+			i += 1;
+			const format = parseFormat(raw);
+			if (format == null) {
+				throw new Error(`Unknown format "${raw}". Use: text, json, csv or tsv`);
+			}
+			options.format = format;
+			continue;
+		}
+		if (arg.startsWith('--format=')) {
+			const format = parseFormat(arg.slice('--format='.length));
+			if (format == null) {
+				throw new Error(`Unknown format "${arg.slice('--format='.length)}". Use: text, json, csv or tsv`);
+			}
+			options.format = format;
+			continue;
+		}
+
+		if (arg === '--rows') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --rows');
+			}
+			i += 1;
+			const rows = parseRowKind(raw);
+			if (rows == null) {
+				throw new Error(`Unknown row shape "${raw}". Use: days or entries`);
+			}
+			options.rows = rows;
+			continue;
+		}
+		if (arg.startsWith('--rows=')) {
+			const rows = parseRowKind(arg.slice('--rows='.length));
+			if (rows == null) {
+				throw new Error(`Unknown row shape "${arg.slice('--rows='.length)}". Use: days or entries`);
+			}
+			options.rows = rows;
+			continue;
+		}
+
+		if (arg === '--budget') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --budget');
+			}
+			i += 1;
+			parseBudgets(raw, options.budgets);
+			continue;
+		}
+		if (arg.startsWith('--budget=')) {
+			parseBudgets(arg.slice('--budget='.length), options.budgets);
+			continue;
+		}
+
+		if (arg === '--warn-at') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --warn-at');
+			}
+			i += 1;
+			options.warnAt = parseWarnAt(raw);
+			continue;
+		}
+		if (arg.startsWith('--warn-at=')) {
+			options.warnAt = parseWarnAt(arg.slice('--warn-at='.length));
+			continue;
+		}
+
+		if (arg === '--pricing-date') {
+			const raw = argv[i + 1];
+			if (raw == null) {
+				throw new Error('Missing value after --pricing-date');
+			}
+			i += 1;
+			options.pricingDate = parsePricingDate(raw);
+			continue;
+		}
+		if (arg.startsWith('--pricing-date=')) {
+			options.pricingDate = parsePricingDate(arg.slice('--pricing-date='.length));
+			continue;
+		}
+
 		throw new Error(`Unknown argument "${arg}". Run with --help.`);
 	}
 
@@ -143,20 +587,48 @@ export function printHelp(): void {
 	console.log(
 		[
 			'Usage: agents-usage [options]',
+			'       agents-usage config show [options]   Print effective settings and where they come from',
+			'       agents-usage pricing explain [options]   Show how each model in the range was priced',
 			'',
 			'Defaults:',
 			'- Sources: Claude + Codex',
-			'- Month: current month',
+			'- Range: current month',
 			'- Metric: cost',
+			'- Grouping: source',
+			'- View: summary',
+			'- Format: text',
 			'',
 			'Options:',
-			'  -s, --sources <list>    Comma list: claude,codex',
+			'  -s, --sources <list>    Comma list: claude,codex,gemini,otel or a custom source id',
 			'  -m, --month <YYYY-MM>   Month to chart',
+			'      --since <date>      Range start: YYYY-MM-DD, YYYY-MM, YYYY, 7d, 2w, today, yesterday,',
+			'                          this-week, last-week, this-month, last-month, this-year, last-year',
+			'      --until <date>      Range end (inclusive, defaults to today or the period end)',
+			'      --months <n>        Month-over-month trend for the last n months (ending at --month)',
 			'      --metric <name>     cost | tokens',
+			'      --by <name>         source | model | project',
+			'  -v, --view <name>       summary | daily | heatmap | profile | sessions | blocks |',
+			'                          limits',
+			'      --top <n>           Sessions or blocks to list (default: 20)',
+			'      --sort <key>        Session order: cost | tokens | start | duration',
+			'      --timezone <name>   IANA timezone for day/month boundaries and hours (default: local)',
+			'      --utc               Shorthand for --timezone UTC',
+			'  -p, --project <glob>    Only include projects matching a path or name glob',
+			'  -f, --format <name>     text | json | csv | tsv',
+			'      --rows <shape>      days | entries (csv/tsv only)',
+			'      --budget <spec>     Monthly USD budget: 500 (all CLIs) or claude=300,codex=150',
+			'      --warn-at <list>    Budget warning thresholds in percent (default: 80)',
+			'      --pricing-date <d>  Price everything with the snapshot in effect on YYYY-MM-DD',
+			'      --strict-pricing    Disable fuzzy substring matching of model prices',
 			'      --offline           Do not fetch remote pricing data',
 			'      --no-color          Disable ANSI colors',
 			'      --non-interactive   Skip prompts (uses flags/defaults)',
 			'  -h, --help              Show help',
+			'',
+			'Config: ~/.agents-usage/config.json, overridden by .agents-usage.json in the current repo.',
+			'Flags take precedence over both.',
+			'',
+			'Exit codes: 1 when no usage data is found, 2 when a budget is exceeded (--non-interactive only).',
 		].join('\n'),
 	);
 }
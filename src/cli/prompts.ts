@@ -1,6 +1,24 @@
 import type { CliOptions } from './options.js';
-import type { MetricKind, SourceDetection, SourceKind } from '../types.js';
-import { bold, color, currentMonthString, parseMonthWindow } from '../utils.js';
+import type {
+	DateWindow,
+	FormatKind,
+	GroupKind,
+	MetricKind,
+	RowKind,
+	SessionSortKind,
+	SourceDetection,
+	SourceKind,
+	ViewKind,
+} from '../types.js';
+import {
+	bold,
+	color,
+	currentMonthString,
+	monthDateWindow,
+	monthRange,
+	normalizeTimeZone,
+	parseDateRange,
+} from '../utils.js';
 
 export async function resolveSources(
 	options: CliOptions,
@@ -16,23 +34,56 @@ export async function resolveSources(
 		return filtered;
 	}
 
-	const defaultSources = availableSources
+	return defaultSources(availableSources);
+}
+
+// Claude + Codex when either is present; other sources are opt-in through --sources or the config.
+export function defaultSources(availableSources: SourceDetection[]): SourceKind[] {
+	const defaults = availableSources
 		.filter((item) => item.source === 'claude' || item.source === 'codex')
 		.map((item) => item.source);
-	if (defaultSources.length > 0) {
-		return defaultSources;
+	if (defaults.length > 0) {
+		return defaults;
 	}
 
 	return availableSources.map((item) => item.source);
 }
 
-export async function resolveMonth(options: CliOptions): Promise<string> {
-	if (options.month != null && options.month !== '') {
-		parseMonthWindow(options.month);
-		return options.month;
+export async function resolveWindow(options: CliOptions, timeZone: string): Promise<DateWindow> {
+	const hasMonth = options.month != null && options.month !== '';
+	const hasSince = options.since != null && options.since !== '';
+	const hasUntil = options.until != null && options.until !== '';
+	if (hasMonth && (hasSince || hasUntil)) {
+		throw new Error('Use either --month or --since/--until, not both.');
+	}
+	if (hasUntil && !hasSince) {
+		throw new Error('--until requires --since.');
+	}
+
+	const trendMonths = await resolveTrendMonths(options, timeZone);
+	if (trendMonths != null) {
+		if (hasSince) {
+			throw new Error('Use either --months or --since/--until, not both.');
+		}
+		return parseDateRange(trendMonths[0] ?? '', trendMonths[trendMonths.length - 1], timeZone);
+	}
+
+	if (hasSince) {
+		return parseDateRange(options.since ?? '', options.until, timeZone);
 	}
+	return monthDateWindow(hasMonth ? (options.month ?? '') : currentMonthString(timeZone), timeZone);
+}
 
-	return currentMonthString();
+export async function resolveTrendMonths(
+	options: CliOptions,
+	timeZone: string,
+): Promise<string[] | null> {
+	if (options.months == null) {
+		return null;
+	}
+	const endMonth =
+		options.month != null && options.month !== '' ? options.month : currentMonthString(timeZone);
+	return monthRange(endMonth, options.months);
 }
 
 export async function resolveMetric(options: CliOptions): Promise<MetricKind> {
@@ -42,6 +93,54 @@ export async function resolveMetric(options: CliOptions): Promise<MetricKind> {
 	return 'cost';
 }
 
+export async function resolveGroupBy(options: CliOptions): Promise<GroupKind> {
+	if (options.groupBy != null) {
+		return options.groupBy;
+	}
+	return 'source';
+}
+
+export async function resolveView(options: CliOptions): Promise<ViewKind> {
+	if (options.view != null) {
+		return options.view;
+	}
+	return 'summary';
+}
+
+export async function resolveSessionSort(
+	options: CliOptions,
+	metric: MetricKind,
+): Promise<SessionSortKind> {
+	if (options.sort != null) {
+		return options.sort;
+	}
+	return metric;
+}
+
+export async function resolveTimeZone(options: CliOptions): Promise<string> {
+	if (options.utc) {
+		if (options.timeZone != null && normalizeTimeZone(options.timeZone) !== 'UTC') {
+			throw new Error('Use either --utc or --timezone, not both.');
+		}
+		return 'UTC';
+	}
+	return normalizeTimeZone(options.timeZone ?? 'local');
+}
+
+export async function resolveFormat(options: CliOptions): Promise<FormatKind> {
+	if (options.format != null) {
+		return options.format;
+	}
+	return 'text';
+}
+
+export async function resolveRows(options: CliOptions): Promise<RowKind> {
+	if (options.rows != null) {
+		return options.rows;
+	}
+	return 'days';
+}
+
 export function printDetections(detections: SourceDetection[], colorsEnabled: boolean): void {
 	console.log(bold(color('Detected sources', '34', colorsEnabled), colorsEnabled));
 	for (const detection of detections) {
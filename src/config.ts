@@ -0,0 +1,394 @@
+import type { CliOptions } from './cli/options.js';
+import type { JsonlFieldName, JsonlSourceDefinition } from './loaders.js';
+import type { PricingMap } from './pricing.js';
+import type { BudgetScope, MetricKind, SourceKind } from './types.js';
+import { isWarnAtPercent, parseMetric, parseSourceKind } from './cli/options.js';
+import { readPricingRecord } from './pricing-overrides.js';
+import { resolveSourceName, SOURCE_ID_PATTERN } from './sources.js';
+import { expandHomePath, getHomeDirectory, normalizeTimeZone } from './utils.js';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+export type AgentsUsageConfig = {
+	sources?: SourceKind[];
+	metric?: MetricKind;
+	timeZone?: string;
+	// Extra log roots, searched in addition to the defaults.
+	roots?: Partial<Record<SourceKind, string[]>>;
+	modelAliases?: Record<string, string>;
+	prices?: PricingMap;
+	// Path to a pricing overrides file (model rates, discounts, effective dates).
+	pricingOverrides?: string;
+	strictPricing?: boolean;
+	budgets?: Partial<Record<BudgetScope, number>>;
+	warnAt?: number[];
+	// JSONL-based sources, keyed by source id.
+	customSources?: Record<string, JsonlSourceDefinition>;
+	// Modules whose default export is a source adapter or a list of them.
+	plugins?: string[];
+};
+
+const MAP_KEYS = new Set<string>(['roots', 'modelAliases', 'prices', 'budgets', 'customSources']);
+
+const JSONL_FIELD_NAMES: JsonlFieldName[] = [
+	'timestamp',
+	'id',
+	'model',
+	'sessionId',
+	'project',
+	'inputTokens',
+	'outputTokens',
+	'cacheReadTokens',
+	'cacheWriteTokens',
+	'reasoningOutputTokens',
+	'costUSD',
+];
+
+const SOURCE_COLORS: Record<string, string> = {
+	red: '31',
+	green: '32',
+	yellow: '33',
+	blue: '34',
+	magenta: '35',
+	cyan: '36',
+	white: '97',
+	gray: '90',
+};
+
+export type LoadedConfig = {
+	config: AgentsUsageConfig;
+	files: string[];
+	// File that last set each key ("metric", "budgets.claude", ...), for `config show`.
+	origins: Record<string, string>;
+};
+
+export const GLOBAL_CONFIG_FILE = path.join(getHomeDirectory(), '.agents-usage', 'config.json');
+export const LOCAL_CONFIG_NAME = '.agents-usage.json';
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+	if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+		return null;
+	}
+	return value as Record<string, unknown>;
+}
+
+function asStringList(value: unknown): string[] | null {
+	if (typeof value === 'string') {
+		return value.split(',').map((part) => part.trim()).filter((part) => part !== '');
+	}
+	if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+		return value.map((item) => item.trim()).filter((item) => item !== '');
+	}
+	return null;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+	try {
+		return (await stat(filePath)).isFile();
+	} catch {
+		return false;
+	}
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+	try {
+		await stat(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Walks up from `cwd` to the enclosing repository root (or the home directory) looking for a
+// repo-local config file.
+async function findLocalConfig(cwd: string): Promise<string | null> {
+	const home = getHomeDirectory();
+	let dir = path.resolve(cwd);
+	while (true) {
+		const candidate = path.join(dir, LOCAL_CONFIG_NAME);
+		if (await fileExists(candidate)) {
+			return candidate;
+		}
+		const parent = path.dirname(dir);
+		if (dir === home || parent === dir || (await pathExists(path.join(dir, '.git')))) {
+			return null;
+		}
+		dir = parent;
+	}
+}
+
+function parseConfigFile(raw: unknown, filePath: string): AgentsUsageConfig {
+	const fail = (message: string): never => {
+		throw new Error(`${filePath}: ${message}`);
+	};
+	const record = asRecord(raw) ?? fail('expected a JSON object.');
+	const config: AgentsUsageConfig = {};
+
+	if (record.sources != null) {
+		const sources = (asStringList(record.sources) ?? fail('"sources" must be a list of source names.')).map(
+			(name) => parseSourceKind(name.toLowerCase()) ?? fail(`unknown source "${name}". Use: claude, codex, gemini, otel or a custom source`),
+		);
+		config.sources = [...new Set(sources)];
+	}
+
+	if (record.metric != null) {
+		config.metric =
+			(typeof record.metric === 'string' ? parseMetric(record.metric) : null) ??
+			fail('"metric" must be "cost" or "tokens".');
+	}
+
+	if (record.timeZone != null) {
+		if (typeof record.timeZone !== 'string') {
+			fail('"timeZone" must be a string.');
+		}
+		try {
+			normalizeTimeZone(String(record.timeZone));
+		} catch (error) {
+			fail(error instanceof Error ? error.message : String(error));
+		}
+		config.timeZone = String(record.timeZone).trim();
+	}
+
+	if (record.roots != null) {
+		const rootsRecord = asRecord(record.roots) ?? fail('"roots" must map source names to directory lists.');
+		const roots: Partial<Record<SourceKind, string[]>> = {};
+		for (const [name, value] of Object.entries(rootsRecord)) {
+			const source = parseSourceKind(name.toLowerCase()) ?? fail(`unknown source "${name}" in "roots".`);
+			const dirs = asStringList(value) ?? fail(`"roots.${name}" must be a list of directories.`);
+			// Relative roots are relative to the config file, so repo-local configs stay portable.
+			roots[source] = dirs.map((dir) => path.resolve(path.dirname(filePath), expandHomePath(dir)));
+		}
+		config.roots = roots;
+	}
+
+	if (record.modelAliases != null) {
+		const aliasesRecord = asRecord(record.modelAliases) ?? fail('"modelAliases" must map model names to models.');
+		const aliases: Record<string, string> = {};
+		for (const [model, target] of Object.entries(aliasesRecord)) {
+			if (typeof target !== 'string' || target.trim() === '') {
+				fail(`"modelAliases.${model}" must be a model name.`);
+			}
+			aliases[model.trim()] = String(target).trim();
+		}
+		config.modelAliases = aliases;
+	}
+
+	if (record.prices != null) {
+		const pricesRecord = asRecord(record.prices) ?? fail('"prices" must map model names to price records.');
+		const prices: PricingMap = {};
+		for (const [model, value] of Object.entries(pricesRecord)) {
+			const priceRecord = asRecord(value) ?? fail(`"prices.${model}" must be an object.`);
+			prices[model.trim()] = readPricingRecord(priceRecord, `prices.${model}`, fail);
+		}
+		config.prices = prices;
+	}
+
+	if (record.pricingOverrides != null) {
+		if (typeof record.pricingOverrides !== 'string' || record.pricingOverrides.trim() === '') {
+			fail('"pricingOverrides" must be a file path.');
+		}
+		config.pricingOverrides = path.resolve(
+			path.dirname(filePath),
+			expandHomePath(String(record.pricingOverrides).trim()),
+		);
+	}
+
+	if (record.strictPricing != null) {
+		if (typeof record.strictPricing !== 'boolean') {
+			fail('"strictPricing" must be true or false.');
+		}
+		config.strictPricing = record.strictPricing === true;
+	}
+
+	if (record.budgets != null) {
+		const budgetsRecord = asRecord(record.budgets) ?? fail('"budgets" must map total or source ids to USD amounts.');
+		const budgets: Partial<Record<BudgetScope, number>> = {};
+		for (const [name, amount] of Object.entries(budgetsRecord)) {
+			const normalized = name.toLowerCase();
+			const scope: BudgetScope =
+				normalized === 'total' || normalized === 'all'
+					? 'total'
+					: (parseSourceKind(normalized) ?? fail(`unknown budget scope "${name}".`));
+			if (!isPositiveNumber(amount)) {
+				fail(`"budgets.${name}" must be a positive USD amount.`);
+			}
+			budgets[scope] = amount as number;
+		}
+		config.budgets = budgets;
+	}
+
+	if (record.customSources != null) {
+		const sourcesRecord =
+			asRecord(record.customSources) ?? fail('"customSources" must map source ids to definitions.');
+		const customSources: Record<string, JsonlSourceDefinition> = {};
+		for (const [id, value] of Object.entries(sourcesRecord)) {
+			customSources[id] = parseCustomSource(id, value, filePath, fail);
+		}
+		config.customSources = customSources;
+	}
+
+	if (record.plugins != null) {
+		const plugins = asStringList(record.plugins) ?? fail('"plugins" must be a list of module paths.');
+		config.plugins = plugins.map((plugin) => path.resolve(path.dirname(filePath), expandHomePath(plugin)));
+	}
+
+	if (record.warnAt != null) {
+		if (!Array.isArray(record.warnAt) || !record.warnAt.every(isWarnAtPercent)) {
+			fail('"warnAt" must be a list of whole percentages from 1 to 1000.');
+		}
+		config.warnAt = [...new Set(record.warnAt as number[])].sort((left, right) => left - right);
+	}
+
+	return config;
+}
+
+function parseCustomSource(
+	id: string,
+	value: unknown,
+	filePath: string,
+	fail: (message: string) => never,
+): JsonlSourceDefinition {
+	const label = `customSources.${id}`;
+	if (!SOURCE_ID_PATTERN.test(id)) {
+		fail(`"${label}": source ids use lowercase letters, digits, "-" or "_".`);
+	}
+	if (resolveSourceName(id) != null) {
+		fail(`"${label}": "${id}" is a built-in source.`);
+	}
+	const record = asRecord(value) ?? fail(`"${label}" must be an object.`);
+
+	const paths = asStringList(record.paths) ?? fail(`"${label}.paths" must be a list of files or directories.`);
+	const fieldsRecord = asRecord(record.fields) ?? fail(`"${label}.fields" must map field names to dot paths.`);
+	const fields: Partial<Record<JsonlFieldName, string>> = {};
+	for (const [field, dotPath] of Object.entries(fieldsRecord)) {
+		if (!JSONL_FIELD_NAMES.includes(field as JsonlFieldName)) {
+			fail(`unknown field "${field}" in "${label}.fields". Use: ${JSONL_FIELD_NAMES.join(', ')}`);
+		}
+		if (typeof dotPath !== 'string' || dotPath.trim() === '') {
+			fail(`"${label}.fields.${field}" must be a dot path such as "usage.input_tokens".`);
+		}
+		fields[field as JsonlFieldName] = String(dotPath).trim();
+	}
+	const timestamp = fields.timestamp ?? fail(`"${label}.fields.timestamp" is required.`);
+
+	const matchRecord = asRecord(record.match ?? {}) ?? fail(`"${label}.match" must be an object.`);
+	const match: Record<string, string | number | boolean> = {};
+	for (const [dotPath, expected] of Object.entries(matchRecord)) {
+		if (typeof expected !== 'string' && typeof expected !== 'number' && typeof expected !== 'boolean') {
+			fail(`"${label}.match.${dotPath}" must be a string, number or boolean.`);
+		}
+		match[dotPath] = expected as string | number | boolean;
+	}
+
+	let colorCode = SOURCE_COLORS.magenta ?? '35';
+	if (record.color != null) {
+		const { color } = record;
+		if (typeof color === 'number' && Number.isInteger(color) && color >= 0 && color <= 255) {
+			colorCode = `38;5;${color}`;
+		} else {
+			colorCode =
+				(typeof color === 'string' ? SOURCE_COLORS[color.toLowerCase()] : undefined) ??
+				fail(`"${label}.color" must be one of ${Object.keys(SOURCE_COLORS).join(', ')} or a 256-color number.`);
+		}
+	}
+	if (record.label != null && typeof record.label !== 'string') {
+		fail(`"${label}.label" must be a string.`);
+	}
+	if (record.provider != null && typeof record.provider !== 'string') {
+		fail(`"${label}.provider" must be a string.`);
+	}
+	if (record.inputIncludesCacheReads != null && typeof record.inputIncludesCacheReads !== 'boolean') {
+		fail(`"${label}.inputIncludesCacheReads" must be true or false.`);
+	}
+
+	const provider = typeof record.provider === 'string' ? record.provider.trim() : '';
+	return {
+		label: typeof record.label === 'string' && record.label.trim() !== '' ? record.label.trim() : id,
+		paths: paths.map((entry) => path.resolve(path.dirname(filePath), expandHomePath(entry))),
+		style: { title: colorCode, fill: colorCode, empty: '90' },
+		...(provider !== '' ? { provider } : {}),
+		fields: { ...fields, timestamp },
+		match,
+		inputIncludesCacheReads: record.inputIncludesCacheReads === true,
+	};
+}
+
+async function readConfigFile(filePath: string): Promise<AgentsUsageConfig> {
+	const content = await readFile(filePath, 'utf8');
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content) as unknown;
+	} catch (error) {
+		throw new Error(`${filePath}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+	}
+	return parseConfigFile(raw, filePath);
+}
+
+// Later files win per key; map-like keys (roots, aliases, prices, budgets, custom sources) merge
+// per entry, and plugins from every file are loaded.
+function mergeConfig(base: AgentsUsageConfig, next: AgentsUsageConfig): AgentsUsageConfig {
+	const merged: AgentsUsageConfig = { ...base, ...next };
+	if (base.roots != null && next.roots != null) {
+		merged.roots = { ...base.roots, ...next.roots };
+	}
+	if (base.modelAliases != null && next.modelAliases != null) {
+		merged.modelAliases = { ...base.modelAliases, ...next.modelAliases };
+	}
+	if (base.prices != null && next.prices != null) {
+		merged.prices = { ...base.prices, ...next.prices };
+	}
+	if (base.budgets != null && next.budgets != null) {
+		merged.budgets = { ...base.budgets, ...next.budgets };
+	}
+	if (base.customSources != null && next.customSources != null) {
+		merged.customSources = { ...base.customSources, ...next.customSources };
+	}
+	if (base.plugins != null && next.plugins != null) {
+		merged.plugins = [...new Set([...base.plugins, ...next.plugins])];
+	}
+	return merged;
+}
+
+export async function loadConfig(cwd = process.cwd()): Promise<LoadedConfig> {
+	const candidates = [GLOBAL_CONFIG_FILE];
+	const localFile = await findLocalConfig(cwd);
+	if (localFile != null && localFile !== GLOBAL_CONFIG_FILE) {
+		candidates.push(localFile);
+	}
+
+	const loaded: LoadedConfig = { config: {}, files: [], origins: {} };
+	for (const filePath of candidates) {
+		if (!(await fileExists(filePath))) {
+			continue;
+		}
+		const config = await readConfigFile(filePath);
+		loaded.config = mergeConfig(loaded.config, config);
+		loaded.files.push(filePath);
+		for (const [key, value] of Object.entries(config)) {
+			const names = MAP_KEYS.has(key) ? Object.keys(value as object).map((name) => `${key}.${name}`) : [key];
+			for (const name of names) {
+				loaded.origins[name] = filePath;
+			}
+		}
+	}
+	return loaded;
+}
+
+// Config values only fill in what the command line left unset.
+export function applyConfigDefaults(options: CliOptions, config: AgentsUsageConfig): CliOptions {
+	return {
+		...options,
+		...(options.sources == null && config.sources != null ? { sources: config.sources } : {}),
+		...(options.metric == null && config.metric != null ? { metric: config.metric } : {}),
+		...(options.timeZone == null && !options.utc && config.timeZone != null
+			? { timeZone: config.timeZone }
+			: {}),
+		...(options.warnAt == null && config.warnAt != null ? { warnAt: config.warnAt } : {}),
+		budgets: { ...config.budgets, ...options.budgets },
+		strictPricing: options.strictPricing || config.strictPricing === true,
+	};
+}
@@ -1,13 +1,16 @@
-import type { SourceDetection, SourceKind, UsageEntry } from './types.js';
+import type { SourceAdapter, SourceStyle } from './sources.js';
+import type { RateLimitSnapshot, RateLimitWindow, UsageEntry } from './types.js';
 import {
 	getHomeDirectory,
 	isDirectory,
 	listFilesRecursively,
 	normalizeNumber,
+	readJsonFile,
 	readJsonlLines,
-	SOURCE_LABELS,
 	splitCommaList,
+	totalTokens,
 } from './utils.js';
+import { readdir, readFile, stat } from 'node:fs/promises';
 import path from 'node:path';
 
 type CodexRawUsage = {
@@ -18,28 +21,74 @@ type CodexRawUsage = {
 	total_tokens: number;
 };
 
-function getClaudeRoots(): string[] {
+function withExtraRoots(roots: string[], extra: string[]): string[] {
+	return [...new Set([...roots, ...extra])];
+}
+
+function getClaudeRoots(extraRoots: string[]): string[] {
 	const env = process.env.CLAUDE_CONFIG_DIR?.trim();
 	if (env != null && env !== '') {
-		return splitCommaList(env).map((value) => path.resolve(value));
+		return withExtraRoots(
+			splitCommaList(env).map((value) => path.resolve(value)),
+			extraRoots,
+		);
 	}
 
 	const home = getHomeDirectory();
 	const xdg = process.env.XDG_CONFIG_HOME?.trim();
 	const xdgRoot = xdg != null && xdg !== '' ? xdg : path.join(home, '.config');
-	return [path.join(xdgRoot, 'claude'), path.join(home, '.claude')];
+	return withExtraRoots([path.join(xdgRoot, 'claude'), path.join(home, '.claude')], extraRoots);
 }
 
-function getCodexRoot(): string {
+function getCodexRoots(extraRoots: string[]): string[] {
 	const env = process.env.CODEX_HOME?.trim();
 	if (env != null && env !== '') {
-		return path.resolve(env);
+		return withExtraRoots([path.resolve(env)], extraRoots);
+	}
+	return withExtraRoots([path.join(getHomeDirectory(), '.codex')], extraRoots);
+}
+
+async function listCodexSessionFiles(roots: string[], limit?: number): Promise<string[]> {
+	const files: string[] = [];
+	for (const root of roots) {
+		files.push(...(await listFilesRecursively(path.join(root, 'sessions'), '.jsonl', limit)));
 	}
-	return path.join(getHomeDirectory(), '.codex');
+	return files;
+}
+
+function getGeminiRoots(extraRoots: string[]): string[] {
+	return withExtraRoots([path.join(getHomeDirectory(), '.gemini')], extraRoots);
 }
 
-async function detectClaudeSource(): Promise<SourceDetection> {
-	const roots = getClaudeRoots();
+// Gemini CLI records each chat as tmp/<project hash>/chats/session-*.json under its home.
+async function listGeminiChatFiles(roots: string[], limit = Number.POSITIVE_INFINITY): Promise<string[]> {
+	const files: string[] = [];
+	for (const root of roots) {
+		const tmpDir = path.join(root, 'tmp');
+		let projectDirs: string[];
+		try {
+			projectDirs = await readdir(tmpDir);
+		} catch {
+			continue;
+		}
+		for (const projectDir of projectDirs) {
+			const chatFiles = await listFilesRecursively(path.join(tmpDir, projectDir, 'chats'), '.json');
+			for (const filePath of chatFiles) {
+				if (!path.basename(filePath).startsWith('session-')) {
+					continue;
+				}
+				files.push(filePath);
+				if (files.length >= limit) {
+					return files;
+				}
+			}
+		}
+	}
+	return files;
+}
+
+async function detectClaudeSource(extraRoots: string[]): Promise<{ roots: string[]; fileCount: number }> {
+	const roots = getClaudeRoots(extraRoots);
 	let totalFiles = 0;
 
 	for (const root of roots) {
@@ -51,34 +100,7 @@ async function detectClaudeSource(): Promise<SourceDetection> {
 		totalFiles += files.length;
 	}
 
-	return {
-		source: 'claude',
-		label: SOURCE_LABELS.claude,
-		available: totalFiles > 0,
-		roots,
-		fileCount: totalFiles,
-	};
-}
-
-async function detectCodexSource(): Promise<SourceDetection> {
-	const root = getCodexRoot();
-	const sessionsDir = path.join(root, 'sessions');
-	const files = await listFilesRecursively(sessionsDir, '.jsonl', 5);
-	return {
-		source: 'codex',
-		label: SOURCE_LABELS.codex,
-		available: files.length > 0,
-		roots: [root],
-		fileCount: files.length,
-	};
-}
-
-export async function detectSources(): Promise<SourceDetection[]> {
-	const [claude, codex] = await Promise.all([
-		detectClaudeSource(),
-		detectCodexSource(),
-	]);
-	return [claude, codex];
+	return { roots, fileCount: totalFiles };
 }
 
 function asRecord(value: unknown): Record<string, unknown> | null {
@@ -169,20 +191,35 @@ function subtractCodexUsage(
 	};
 }
 
-async function loadClaudeEntries(): Promise<UsageEntry[]> {
+function claudeProjectFromPath(projectsDir: string, filePath: string): string | undefined {
+	const [projectDir] = path.relative(projectsDir, filePath).split(path.sep);
+	return projectDir == null || projectDir === '' || projectDir.endsWith('.jsonl') ? undefined : projectDir;
+}
+
+async function loadClaudeEntries(extraRoots: string[]): Promise<UsageEntry[]> {
 	const entries: UsageEntry[] = [];
 	const dedupe = new Set<string>();
+	// Claude stores logs under projects/<cwd with separators replaced by "-">; the encoding is lossy,
+	// so every entry in a directory takes the first cwd recorded there, or the directory name.
+	const projectPaths = new Map<string, string>();
+	const entryProjectDirs = new Map<UsageEntry, string>();
 
-	for (const root of getClaudeRoots()) {
+	for (const root of getClaudeRoots(extraRoots)) {
 		const projectsDir = path.join(root, 'projects');
 		const files = await listFilesRecursively(projectsDir, '.jsonl');
 		for (const filePath of files) {
 			const parsedLines = await readJsonlLines(filePath);
+			const projectDir = claudeProjectFromPath(projectsDir, filePath);
+			const fileSessionId = path.basename(filePath, '.jsonl');
 			for (const parsedLine of parsedLines) {
 				const lineRecord = asRecord(parsedLine);
 				if (lineRecord == null) {
 					continue;
 				}
+				const cwd = asTrimmedString(lineRecord.cwd);
+				if (projectDir != null && cwd != null && !projectPaths.has(projectDir)) {
+					projectPaths.set(projectDir, cwd);
+				}
 				const messageRecord = asRecord(lineRecord.message);
 				const usageRecord = asRecord(messageRecord?.usage);
 				if (usageRecord == null) {
@@ -210,9 +247,20 @@ async function loadClaudeEntries(): Promise<UsageEntry[]> {
 
 				const inputTokens = normalizeNumber(usageRecord.input_tokens);
 				const outputTokens = normalizeNumber(usageRecord.output_tokens);
-				const cacheWriteTokens = normalizeNumber(usageRecord.cache_creation_input_tokens);
+				// Newer builds split cache writes by TTL; the flat counter still holds their sum.
+				const cacheCreation = asRecord(usageRecord.cache_creation);
+				const cacheWrite5mTokens = normalizeNumber(cacheCreation?.ephemeral_5m_input_tokens);
+				const loggedCacheWrite1hTokens = normalizeNumber(cacheCreation?.ephemeral_1h_input_tokens);
+				const cacheWriteTokens = Math.max(
+					normalizeNumber(usageRecord.cache_creation_input_tokens),
+					cacheWrite5mTokens + loggedCacheWrite1hTokens,
+				);
+				const cacheWrite1hTokens = Math.min(loggedCacheWrite1hTokens, cacheWriteTokens);
 				const cacheReadTokens = normalizeNumber(usageRecord.cache_read_input_tokens);
-				if (inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens === 0) {
+				const webSearchRequests = normalizeNumber(
+					asRecord(usageRecord.server_tool_use)?.web_search_requests,
+				);
+				if (inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens + webSearchRequests === 0) {
 					continue;
 				}
 
@@ -222,35 +270,89 @@ async function loadClaudeEntries(): Promise<UsageEntry[]> {
 					'unknown';
 				const rawCost = lineRecord.costUSD;
 				const costUSD = typeof rawCost === 'number' && Number.isFinite(rawCost) ? rawCost : null;
+				const sessionId = asTrimmedString(lineRecord.sessionId) ?? fileSessionId;
 
-				entries.push({
+				const entry: UsageEntry = {
 					source: 'claude',
 					timestamp: date,
 					model,
+					sessionId,
+					...(projectDir == null && cwd != null ? { project: cwd } : {}),
 					inputTokens,
 					outputTokens,
 					cacheReadTokens,
 					cacheWriteTokens,
+					cacheWrite1hTokens,
 					reasoningOutputTokens: 0,
+					webSearchRequests,
+					inputIncludesCacheReads: false,
 					costUSD,
-				});
+				};
+				entries.push(entry);
+				if (projectDir != null) {
+					entryProjectDirs.set(entry, projectDir);
+				}
 			}
 		}
 	}
 
+	for (const [entry, projectDir] of entryProjectDirs) {
+		entry.project = projectPaths.get(projectDir) ?? projectDir;
+	}
 	return entries;
 }
 
-async function loadCodexEntries(): Promise<UsageEntry[]> {
-	const root = getCodexRoot();
-	const sessionsDir = path.join(root, 'sessions');
-	const files = await listFilesRecursively(sessionsDir, '.jsonl');
+// Older Codex builds log `resets_in_seconds` relative to the event; newer ones log an absolute `resets_at`.
+function normalizeRateLimitWindow(value: unknown, observedAt: Date): RateLimitWindow | null {
+	const record = asRecord(value);
+	if (record == null || typeof record.used_percent !== 'number' || !Number.isFinite(record.used_percent)) {
+		return null;
+	}
+
+	let resetsAt: Date | null = null;
+	if (typeof record.resets_at === 'number' && Number.isFinite(record.resets_at)) {
+		resetsAt = new Date(record.resets_at * 1000);
+	} else if (typeof record.resets_in_seconds === 'number' && Number.isFinite(record.resets_in_seconds)) {
+		resetsAt = new Date(observedAt.getTime() + record.resets_in_seconds * 1000);
+	}
+	const windowMinutes = normalizeNumber(record.window_minutes);
+	return {
+		usedPercent: Math.max(0, record.used_percent),
+		windowMinutes: windowMinutes > 0 ? windowMinutes : null,
+		resetsAt,
+	};
+}
+
+type CodexLogs = {
+	entries: UsageEntry[];
+	rateLimits: RateLimitSnapshot[];
+};
+
+// Usage entries and rate-limit snapshots come from the same session files; parse them once per run.
+const codexLogsByRoots = new Map<string, Promise<CodexLogs>>();
+
+function loadCodexLogs(extraRoots: string[]): Promise<CodexLogs> {
+	const roots = getCodexRoots(extraRoots);
+	const key = roots.join('\u0000');
+	let logs = codexLogsByRoots.get(key);
+	if (logs == null) {
+		logs = readCodexLogs(roots);
+		codexLogsByRoots.set(key, logs);
+	}
+	return logs;
+}
+
+async function readCodexLogs(roots: string[]): Promise<CodexLogs> {
+	const files = await listCodexSessionFiles(roots);
 	const entries: UsageEntry[] = [];
+	const rateLimits: RateLimitSnapshot[] = [];
 
 	for (const filePath of files) {
 		const parsedLines = await readJsonlLines(filePath);
 		let previousTotals: CodexRawUsage | null = null;
 		let currentModel: string | undefined;
+		let currentProject: string | undefined;
+		let sessionId = path.basename(filePath, '.jsonl');
 
 		for (const parsedLine of parsedLines) {
 			const lineRecord = asRecord(parsedLine);
@@ -259,11 +361,18 @@ async function loadCodexEntries(): Promise<UsageEntry[]> {
 			}
 
 			const type = asTrimmedString(lineRecord.type);
+			if (type === 'session_meta') {
+				const metaRecord = asRecord(lineRecord.payload);
+				currentProject = asTrimmedString(metaRecord?.cwd) ?? currentProject;
+				sessionId = asTrimmedString(metaRecord?.id) ?? sessionId;
+				continue;
+			}
 			if (type === 'turn_context') {
 				const contextModel = extractModel(lineRecord.payload);
 				if (contextModel != null) {
 					currentModel = contextModel;
 				}
+				currentProject = asTrimmedString(asRecord(lineRecord.payload)?.cwd) ?? currentProject;
 				continue;
 			}
 
@@ -285,6 +394,15 @@ async function loadCodexEntries(): Promise<UsageEntry[]> {
 				continue;
 			}
 
+			const rateLimitRecord = asRecord(payload.rate_limits);
+			if (rateLimitRecord != null) {
+				const primary = normalizeRateLimitWindow(rateLimitRecord.primary, date);
+				const secondary = normalizeRateLimitWindow(rateLimitRecord.secondary, date);
+				if (primary != null || secondary != null) {
+					rateLimits.push({ source: 'codex', timestamp: date, sessionId, primary, secondary });
+				}
+			}
+
 			const info = asRecord(payload.info);
 			const lastUsage = normalizeCodexRawUsage(info?.last_token_usage);
 			const totalUsage = normalizeCodexRawUsage(info?.total_token_usage);
@@ -320,11 +438,83 @@ async function loadCodexEntries(): Promise<UsageEntry[]> {
 				source: 'codex',
 				timestamp: date,
 				model,
+				sessionId,
+				...(currentProject != null ? { project: currentProject } : {}),
 				inputTokens,
 				outputTokens,
 				cacheReadTokens,
 				cacheWriteTokens: 0,
+				cacheWrite1hTokens: 0,
 				reasoningOutputTokens,
+				webSearchRequests: 0,
+				inputIncludesCacheReads: true,
+				costUSD: null,
+			});
+		}
+	}
+
+	return { entries, rateLimits };
+}
+
+async function loadGeminiEntries(extraRoots: string[]): Promise<UsageEntry[]> {
+	const entries: UsageEntry[] = [];
+	const dedupe = new Set<string>();
+
+	for (const filePath of await listGeminiChatFiles(getGeminiRoots(extraRoots))) {
+		const conversation = asRecord(await readJsonFile<unknown>(filePath));
+		if (conversation == null || !Array.isArray(conversation.messages)) {
+			continue;
+		}
+		// The project directory name is a one-way hash of the project path, so no project is set.
+		const sessionId = asTrimmedString(conversation.sessionId) ?? path.basename(filePath, '.json');
+		for (const message of conversation.messages) {
+			const messageRecord = asRecord(message);
+			const tokens = asRecord(messageRecord?.tokens);
+			if (messageRecord == null || tokens == null || asTrimmedString(messageRecord.type) !== 'gemini') {
+				continue;
+			}
+
+			const timestamp = asTrimmedString(messageRecord.timestamp);
+			if (timestamp == null) {
+				continue;
+			}
+			const date = new Date(timestamp);
+			if (Number.isNaN(date.getTime())) {
+				continue;
+			}
+
+			// Resumed sessions are saved again with their earlier messages.
+			const messageId = asTrimmedString(messageRecord.id);
+			if (messageId != null) {
+				const key = `${sessionId}:${messageId}`;
+				if (dedupe.has(key)) {
+					continue;
+				}
+				dedupe.add(key);
+			}
+
+			// Like Codex, the prompt count includes cached tokens; tool-use prompt tokens bill as input.
+			const inputTokens = normalizeNumber(tokens.input) + normalizeNumber(tokens.tool);
+			const cacheReadTokens = Math.min(normalizeNumber(tokens.cached), inputTokens);
+			const outputTokens = normalizeNumber(tokens.output);
+			const reasoningOutputTokens = normalizeNumber(tokens.thoughts);
+			if (inputTokens + outputTokens + reasoningOutputTokens === 0) {
+				continue;
+			}
+
+			entries.push({
+				source: 'gemini',
+				timestamp: date,
+				model: asTrimmedString(messageRecord.model) ?? 'unknown',
+				sessionId,
+				inputTokens,
+				outputTokens,
+				cacheReadTokens,
+				cacheWriteTokens: 0,
+				cacheWrite1hTokens: 0,
+				reasoningOutputTokens,
+				webSearchRequests: 0,
+				inputIncludesCacheReads: true,
 				costUSD: null,
 			});
 		}
@@ -333,11 +523,574 @@ async function loadCodexEntries(): Promise<UsageEntry[]> {
 	return entries;
 }
 
-export async function loadEntriesForSource(source: SourceKind): Promise<UsageEntry[]> {
-	switch (source) {
-		case 'claude':
-			return loadClaudeEntries();
-		case 'codex':
-			return loadCodexEntries();
+export async function loadRateLimitSnapshots(extraRoots: string[] = []): Promise<RateLimitSnapshot[]> {
+	const { rateLimits } = await loadCodexLogs(extraRoots);
+	return [...rateLimits].sort((left, right) => left.timestamp.getTime() - right.timestamp.getTime());
+}
+
+export type JsonlFieldName =
+	| 'timestamp'
+	| 'id'
+	| 'model'
+	| 'sessionId'
+	| 'project'
+	| 'inputTokens'
+	| 'outputTokens'
+	| 'cacheReadTokens'
+	| 'cacheWriteTokens'
+	| 'reasoningOutputTokens'
+	| 'costUSD';
+
+// A source declared in the config file: JSONL logs plus a dot path (e.g. "usage.input_tokens")
+// to each field on a line. Only `timestamp` is required.
+export type JsonlSourceDefinition = {
+	label: string;
+	// Directories searched recursively for *.jsonl files, or individual files.
+	paths: string[];
+	style: SourceStyle;
+	provider?: string;
+	fields: Partial<Record<JsonlFieldName, string>> & { timestamp: string };
+	// Only lines whose value at each path equals the given value are read.
+	match: Record<string, string | number | boolean>;
+	// Whether inputTokens already counts cacheReadTokens (OpenAI style) or not (Anthropic style).
+	inputIncludesCacheReads: boolean;
+};
+
+function readDotPath(value: unknown, dotPath: string | undefined): unknown {
+	if (dotPath == null) {
+		return undefined;
+	}
+	let current = value;
+	for (const segment of dotPath.split('.')) {
+		if (Array.isArray(current) && /^\d+$/.test(segment)) {
+			current = current[Number(segment)];
+			continue;
+		}
+		const record = asRecord(current);
+		if (record == null) {
+			return undefined;
+		}
+		current = record[segment];
+	}
+	return current;
+}
+
+// Accepts ISO strings and epoch seconds or milliseconds.
+function parseTimestampValue(value: unknown): Date | null {
+	let date: Date | null = null;
+	if (typeof value === 'number' && Number.isFinite(value)) {
+		date = new Date(value < 1e12 ? value * 1000 : value);
+	} else if (typeof value === 'string' && value.trim() !== '') {
+		date = new Date(value.trim());
+	}
+	return date == null || Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function listJsonlFiles(roots: string[], limit = Number.POSITIVE_INFINITY): Promise<string[]> {
+	const files: string[] = [];
+	for (const root of roots) {
+		if (await isDirectory(root)) {
+			files.push(...(await listFilesRecursively(root, '.jsonl', limit - files.length)));
+		} else {
+			try {
+				if ((await stat(root)).isFile()) {
+					files.push(root);
+				}
+			} catch {
+				continue;
+			}
+		}
+		if (files.length >= limit) {
+			break;
+		}
 	}
+	return files;
 }
+
+async function loadJsonlEntries(
+	source: string,
+	definition: JsonlSourceDefinition,
+	roots: string[],
+): Promise<UsageEntry[]> {
+	const entries: UsageEntry[] = [];
+	const dedupe = new Set<string>();
+	const { fields } = definition;
+	const matchers = Object.entries(definition.match);
+
+	for (const filePath of await listJsonlFiles(roots)) {
+		for (const line of await readJsonlLines(filePath)) {
+			if (matchers.some(([dotPath, expected]) => readDotPath(line, dotPath) !== expected)) {
+				continue;
+			}
+			const date = parseTimestampValue(readDotPath(line, fields.timestamp));
+			if (date == null) {
+				continue;
+			}
+
+			const id = readDotPath(line, fields.id);
+			if (typeof id === 'string' || typeof id === 'number') {
+				const key = String(id);
+				if (dedupe.has(key)) {
+					continue;
+				}
+				dedupe.add(key);
+			}
+
+			const inputTokens = normalizeNumber(readDotPath(line, fields.inputTokens));
+			const cacheReadTokens = normalizeNumber(readDotPath(line, fields.cacheReadTokens));
+			const outputTokens = normalizeNumber(readDotPath(line, fields.outputTokens));
+			const cacheWriteTokens = normalizeNumber(readDotPath(line, fields.cacheWriteTokens));
+			const reasoningOutputTokens = normalizeNumber(readDotPath(line, fields.reasoningOutputTokens));
+			if (inputTokens + cacheReadTokens + outputTokens + cacheWriteTokens + reasoningOutputTokens === 0) {
+				continue;
+			}
+
+			const rawCost = readDotPath(line, fields.costUSD);
+			const project = asTrimmedString(readDotPath(line, fields.project));
+			const sessionId = asTrimmedString(readDotPath(line, fields.sessionId));
+			entries.push({
+				source,
+				timestamp: date,
+				model: asTrimmedString(readDotPath(line, fields.model)) ?? 'unknown',
+				...(definition.provider != null ? { provider: definition.provider } : {}),
+				...(project != null ? { project } : {}),
+				...(sessionId != null ? { sessionId } : {}),
+				inputTokens,
+				outputTokens,
+				cacheReadTokens,
+				cacheWriteTokens,
+				cacheWrite1hTokens: 0,
+				reasoningOutputTokens,
+				webSearchRequests: 0,
+				inputIncludesCacheReads: definition.inputIncludesCacheReads,
+				costUSD: typeof rawCost === 'number' && Number.isFinite(rawCost) ? rawCost : null,
+			});
+		}
+	}
+
+	return entries;
+}
+
+export function createJsonlSourceAdapter(id: string, definition: JsonlSourceDefinition): SourceAdapter {
+	return {
+		id,
+		label: definition.label,
+		style: definition.style,
+		detect: async (extraRoots) => {
+			const roots = withExtraRoots(definition.paths, extraRoots);
+			return { roots, fileCount: (await listJsonlFiles(roots, 5)).length };
+		},
+		load: (extraRoots) => loadJsonlEntries(id, definition, withExtraRoots(definition.paths, extraRoots)),
+	};
+}
+
+// Where a token data point goes on an entry.
+type OtelTokenCategory = 'input' | 'output' | 'reasoning' | 'cacheWrite' | 'cacheRead';
+
+type OtelTokenMetric = {
+	typeAttribute: string;
+	categories: Record<string, OtelTokenCategory>;
+	// Whether the input count already contains cached tokens (see UsageEntry).
+	inputIncludesCacheReads: boolean;
+};
+
+// Token counters by metric name, with the attribute that holds the token type. Claude Code also
+// reports a `claude_code.cost.usage` counter in USD.
+const OTEL_TOKEN_METRICS: Record<string, OtelTokenMetric> = {
+	'claude_code.token.usage': {
+		typeAttribute: 'type',
+		categories: {
+			input: 'input',
+			output: 'output',
+			cacheRead: 'cacheRead',
+			cacheCreation: 'cacheWrite',
+		},
+		inputIncludesCacheReads: false,
+	},
+	'gemini_cli.token.usage': {
+		typeAttribute: 'type',
+		categories: {
+			input: 'input',
+			output: 'output',
+			thought: 'reasoning',
+			cache: 'cacheRead',
+			tool: 'input',
+		},
+		inputIncludesCacheReads: true,
+	},
+	'gen_ai.client.token.usage': {
+		typeAttribute: 'gen_ai.token.type',
+		categories: { input: 'input', output: 'output' },
+		inputIncludesCacheReads: false,
+	},
+};
+
+type OtelTokenEvent = {
+	// Only events whose `event.kind` matches carry final token counts.
+	kind: string;
+	counts: Record<string, OtelTokenCategory>;
+	inputIncludesCacheReads: boolean;
+};
+
+// Codex exports usage as OTel log events rather than metrics: one event per model response,
+// with the token counts as attributes.
+const OTEL_TOKEN_EVENTS: Record<string, OtelTokenEvent> = {
+	'codex.sse_event': {
+		kind: 'response.completed',
+		counts: {
+			input_token_count: 'input',
+			cached_token_count: 'cacheRead',
+			output_token_count: 'output',
+			reasoning_token_count: 'reasoning',
+		},
+		inputIncludesCacheReads: true,
+	},
+};
+const OTEL_COST_METRICS = new Set(['claude_code.cost.usage']);
+const OTEL_MODEL_ATTRIBUTES = ['model', 'gen_ai.response.model', 'gen_ai.request.model'];
+const OTEL_SESSION_ATTRIBUTES = ['session.id', 'conversation.id'];
+const OTEL_PROVIDER_BY_SERVICE: Record<string, string> = {
+	'claude-code': 'anthropic',
+	codex: 'openai',
+	'codex_cli_rs': 'openai',
+	'gemini-cli': 'gemini',
+};
+// OTLP enum value for cumulative aggregation temporality; delta points need no differencing.
+const OTEL_TEMPORALITY_CUMULATIVE = 2;
+
+type OtelPoint = {
+	series: string;
+	entryKey: string;
+	timestamp: Date;
+	cumulative: boolean;
+	value: number;
+	category: OtelTokenCategory | 'cost';
+	inputIncludesCacheReads: boolean;
+	model: string;
+	provider?: string;
+	sessionId?: string;
+};
+
+function getOtelRoots(extraRoots: string[]): string[] {
+	return withExtraRoots([path.join(getHomeDirectory(), '.agents-usage', 'otel')], extraRoots);
+}
+
+async function listOtelFiles(roots: string[], limit = Number.POSITIVE_INFINITY): Promise<string[]> {
+	const files: string[] = [];
+	for (const root of roots) {
+		for (const extension of ['.json', '.jsonl']) {
+			files.push(...(await listFilesRecursively(root, extension, limit - files.length)));
+			if (files.length >= limit) {
+				return files;
+			}
+		}
+	}
+	return files;
+}
+
+// Exporters write either one request per file or one request per line.
+async function readOtelRequests(filePath: string): Promise<unknown[]> {
+	try {
+		return [JSON.parse(await readFile(filePath, 'utf8')) as unknown];
+	} catch {
+		return readJsonlLines(filePath);
+	}
+}
+
+function otelAttributes(value: unknown): Map<string, string | number | boolean> {
+	const attributes = new Map<string, string | number | boolean>();
+	if (!Array.isArray(value)) {
+		return attributes;
+	}
+	for (const item of value) {
+		const record = asRecord(item);
+		const key = asTrimmedString(record?.key);
+		const anyValue = asRecord(record?.value);
+		if (key == null || anyValue == null) {
+			continue;
+		}
+		const scalar = anyValue.stringValue ?? anyValue.intValue ?? anyValue.doubleValue ?? anyValue.boolValue;
+		if (typeof scalar === 'string' || typeof scalar === 'number' || typeof scalar === 'boolean') {
+			attributes.set(key, scalar);
+		}
+	}
+	return attributes;
+}
+
+function otelNumber(value: unknown): number {
+	const parsed = typeof value === 'string' ? Number(value) : value;
+	return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+}
+
+function otelAttributeString(
+	attributes: Map<string, string | number | boolean>,
+	keys: string[],
+): string | undefined {
+	for (const key of keys) {
+		const value = attributes.get(key);
+		if (value != null && String(value).trim() !== '') {
+			return String(value).trim();
+		}
+	}
+	return undefined;
+}
+
+function otelProvider(
+	attributes: Map<string, string | number | boolean>,
+	service: string | undefined,
+): string | undefined {
+	return (
+		otelAttributeString(attributes, ['gen_ai.system', 'gen_ai.provider.name']) ??
+		(service != null ? OTEL_PROVIDER_BY_SERVICE[service] : undefined)
+	);
+}
+
+function collectOtelPoints(request: unknown, points: OtelPoint[]): void {
+	const resourceMetrics = asRecord(request)?.resourceMetrics;
+	if (!Array.isArray(resourceMetrics)) {
+		return;
+	}
+	for (const resourceMetric of resourceMetrics) {
+		const resourceRecord = asRecord(resourceMetric);
+		const resource = otelAttributes(asRecord(resourceRecord?.resource)?.attributes);
+		const resourceKey = JSON.stringify([...resource.entries()].sort());
+		const service = otelAttributeString(resource, ['service.name']);
+		const scopeMetrics = resourceRecord?.scopeMetrics;
+		if (!Array.isArray(scopeMetrics)) {
+			continue;
+		}
+		for (const scopeMetric of scopeMetrics) {
+			const metrics = asRecord(scopeMetric)?.metrics;
+			if (!Array.isArray(metrics)) {
+				continue;
+			}
+			for (const metric of metrics) {
+				const metricRecord = asRecord(metric);
+				const name = asTrimmedString(metricRecord?.name);
+				if (name == null) {
+					continue;
+				}
+				const tokenMetric = OTEL_TOKEN_METRICS[name];
+				if (tokenMetric == null && !OTEL_COST_METRICS.has(name)) {
+					continue;
+				}
+				// Histograms (GenAI conventions) carry the total in `sum`; counters in asDouble/asInt.
+				const histogram = asRecord(metricRecord?.histogram);
+				const data = asRecord(metricRecord?.sum) ?? histogram;
+				if (data == null || !Array.isArray(data.dataPoints)) {
+					continue;
+				}
+				const cumulative = data.aggregationTemporality === OTEL_TEMPORALITY_CUMULATIVE;
+				for (const dataPoint of data.dataPoints) {
+					const pointRecord = asRecord(dataPoint);
+					if (pointRecord == null) {
+						continue;
+					}
+					const attributes = otelAttributes(pointRecord.attributes);
+					const timeNanos = otelNumber(pointRecord.timeUnixNano);
+					if (timeNanos <= 0) {
+						continue;
+					}
+					const tokenType =
+						tokenMetric == null ? undefined : otelAttributeString(attributes, [tokenMetric.typeAttribute]);
+					const category = tokenMetric == null ? 'cost' : tokenMetric.categories[tokenType ?? ''];
+					if (category == null) {
+						continue;
+					}
+					const model = otelAttributeString(attributes, OTEL_MODEL_ATTRIBUTES) ?? 'unknown';
+					const sessionId = otelAttributeString(attributes, OTEL_SESSION_ATTRIBUTES);
+					const provider = otelProvider(attributes, service);
+					const value =
+						histogram != null
+							? otelNumber(pointRecord.sum)
+							: otelNumber(pointRecord.asDouble ?? pointRecord.asInt);
+					const attributeKey = JSON.stringify([...attributes.entries()].sort());
+					points.push({
+						series: `${resourceKey}|${name}|${attributeKey}|${String(pointRecord.startTimeUnixNano ?? '')}`,
+						entryKey: `${resourceKey}|${timeNanos}|${model}|${sessionId ?? ''}`,
+						timestamp: new Date(timeNanos / 1e6),
+						cumulative,
+						value,
+						category,
+						inputIncludesCacheReads: tokenMetric?.inputIncludesCacheReads ?? false,
+						model,
+						...(provider != null ? { provider } : {}),
+						...(sessionId != null ? { sessionId } : {}),
+					});
+				}
+			}
+		}
+	}
+}
+
+function collectOtelEventPoints(request: unknown, points: OtelPoint[]): void {
+	const resourceLogs = asRecord(request)?.resourceLogs;
+	if (!Array.isArray(resourceLogs)) {
+		return;
+	}
+	for (const resourceLog of resourceLogs) {
+		const resourceRecord = asRecord(resourceLog);
+		const resource = otelAttributes(asRecord(resourceRecord?.resource)?.attributes);
+		const resourceKey = JSON.stringify([...resource.entries()].sort());
+		const service = otelAttributeString(resource, ['service.name']);
+		const scopeLogs = resourceRecord?.scopeLogs;
+		if (!Array.isArray(scopeLogs)) {
+			continue;
+		}
+		for (const scopeLog of scopeLogs) {
+			const logRecords = asRecord(scopeLog)?.logRecords;
+			if (!Array.isArray(logRecords)) {
+				continue;
+			}
+			for (const logRecord of logRecords) {
+				const record = asRecord(logRecord);
+				if (record == null) {
+					continue;
+				}
+				const attributes = otelAttributes(record.attributes);
+				const name = asTrimmedString(record.eventName) ?? otelAttributeString(attributes, ['event.name']);
+				const tokenEvent = name == null ? undefined : OTEL_TOKEN_EVENTS[name];
+				if (tokenEvent == null || otelAttributeString(attributes, ['event.kind']) !== tokenEvent.kind) {
+					continue;
+				}
+				const timeNanos = otelNumber(record.timeUnixNano) || otelNumber(record.observedTimeUnixNano);
+				if (timeNanos <= 0) {
+					continue;
+				}
+				const model = otelAttributeString(attributes, OTEL_MODEL_ATTRIBUTES) ?? 'unknown';
+				const sessionId = otelAttributeString(attributes, OTEL_SESSION_ATTRIBUTES);
+				const provider = otelProvider(attributes, service);
+				for (const [attribute, category] of Object.entries(tokenEvent.counts)) {
+					points.push({
+						series: `${resourceKey}|${name}|${attribute}`,
+						entryKey: `${resourceKey}|${timeNanos}|${model}|${sessionId ?? ''}`,
+						timestamp: new Date(timeNanos / 1e6),
+						cumulative: false,
+						value: otelNumber(attributes.get(attribute)),
+						category,
+						inputIncludesCacheReads: tokenEvent.inputIncludesCacheReads,
+						model,
+						...(provider != null ? { provider } : {}),
+						...(sessionId != null ? { sessionId } : {}),
+					});
+				}
+			}
+		}
+	}
+}
+
+async function loadOtelEntries(extraRoots: string[]): Promise<UsageEntry[]> {
+	const points: OtelPoint[] = [];
+	for (const filePath of await listOtelFiles(getOtelRoots(extraRoots))) {
+		for (const request of await readOtelRequests(filePath)) {
+			collectOtelPoints(request, points);
+			collectOtelEventPoints(request, points);
+		}
+	}
+	points.sort((left, right) => left.timestamp.getTime() - right.timestamp.getTime());
+
+	const previousBySeries = new Map<string, number>();
+	const entriesByKey = new Map<string, UsageEntry>();
+	for (const point of points) {
+		let value = point.value;
+		if (point.cumulative) {
+			// Repeated exports of the same cumulative value dedupe to zero; a reset restarts the series.
+			const previous = previousBySeries.get(point.series) ?? 0;
+			previousBySeries.set(point.series, point.value);
+			value = point.value >= previous ? point.value - previous : point.value;
+		}
+		if (value <= 0) {
+			continue;
+		}
+
+		let entry = entriesByKey.get(point.entryKey);
+		if (entry == null) {
+			entry = {
+				source: 'otel',
+				timestamp: point.timestamp,
+				model: point.model,
+				...(point.provider != null ? { provider: point.provider } : {}),
+				...(point.sessionId != null ? { sessionId: point.sessionId } : {}),
+				inputTokens: 0,
+				outputTokens: 0,
+				cacheReadTokens: 0,
+				cacheWriteTokens: 0,
+				cacheWrite1hTokens: 0,
+				reasoningOutputTokens: 0,
+				webSearchRequests: 0,
+				inputIncludesCacheReads: point.inputIncludesCacheReads,
+				costUSD: null,
+			};
+			entriesByKey.set(point.entryKey, entry);
+		}
+		switch (point.category) {
+			case 'input':
+				entry.inputTokens += value;
+				break;
+			case 'output':
+				entry.outputTokens += value;
+				break;
+			case 'reasoning':
+				entry.reasoningOutputTokens += value;
+				break;
+			case 'cacheWrite':
+				entry.cacheWriteTokens += value;
+				break;
+			case 'cacheRead':
+				entry.cacheReadTokens += value;
+				break;
+			case 'cost':
+				entry.costUSD = (entry.costUSD ?? 0) + value;
+				break;
+		}
+	}
+
+	return [...entriesByKey.values()].filter(
+		(entry) => totalTokens(entry) > 0 || entry.costUSD != null,
+	);
+}
+
+export const otelSourceAdapter: SourceAdapter = {
+	id: 'otel',
+	label: 'Telemetry',
+	aliases: ['otlp', 'opentelemetry'],
+	style: { title: '33', fill: '33', empty: '90' }, // yellow
+	detect: async (extraRoots) => {
+		const roots = getOtelRoots(extraRoots);
+		return { roots, fileCount: (await listOtelFiles(roots, 5)).length };
+	},
+	load: loadOtelEntries,
+};
+
+export const claudeSourceAdapter: SourceAdapter = {
+	id: 'claude',
+	label: 'Claude',
+	aliases: ['cloud', 'cloudcode', 'cloud-code'],
+	style: { title: '38;5;208', fill: '38;5;208', empty: '90' }, // orange
+	detect: detectClaudeSource,
+	load: loadClaudeEntries,
+};
+
+export const codexSourceAdapter: SourceAdapter = {
+	id: 'codex',
+	label: 'Codex',
+	aliases: ['codecs'],
+	style: { title: '97', fill: '97', empty: '90' }, // white (black & white style)
+	detect: async (extraRoots) => {
+		const roots = getCodexRoots(extraRoots);
+		return { roots, fileCount: (await listCodexSessionFiles(roots, 5)).length };
+	},
+	load: async (extraRoots) => (await loadCodexLogs(extraRoots)).entries,
+};
+
+export const geminiSourceAdapter: SourceAdapter = {
+	id: 'gemini',
+	label: 'Gemini',
+	aliases: ['gemini-cli'],
+	style: { title: '38;5;75', fill: '38;5;75', empty: '90' }, // blue
+	detect: async (extraRoots) => {
+		const roots = getGeminiRoots(extraRoots);
+		return { roots, fileCount: (await listGeminiChatFiles(roots, 5)).length };
+	},
+	load: loadGeminiEntries,
+};
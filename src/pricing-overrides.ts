@@ -0,0 +1,212 @@
+import type { PriceField, PricingRecord } from './pricing.js';
+import { getHomeDirectory } from './utils.js';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export type ModelPriceOverride = {
+	model: string;
+	record: PricingRecord;
+	// Inclusive start and exclusive end; null means open-ended.
+	from: Date | null;
+	until: Date | null;
+};
+
+export type ProviderDiscount = {
+	provider: string;
+	percent: number;
+	from: Date | null;
+	until: Date | null;
+};
+
+export type PricingOverrides = {
+	file: string | null;
+	models: ModelPriceOverride[];
+	discounts: ProviderDiscount[];
+};
+
+export const PRICE_FIELDS: PriceField[] = [
+	'input_cost_per_token',
+	'output_cost_per_token',
+	'cache_creation_input_token_cost',
+	'cache_creation_input_token_cost_above_1hr',
+	'cache_read_input_token_cost',
+	'input_cost_per_token_above_200k_tokens',
+	'output_cost_per_token_above_200k_tokens',
+	'cache_creation_input_token_cost_above_200k_tokens',
+	'cache_read_input_token_cost_above_200k_tokens',
+	'web_search_cost_per_request',
+];
+
+// Validates user-supplied rates (config file, overrides file). `fail` throws with file context.
+export function readPricingRecord(
+	value: Record<string, unknown>,
+	label: string,
+	fail: (message: string) => never,
+	ignoredFields: string[] = [],
+): PricingRecord {
+	const pricing: PricingRecord = {};
+	for (const [field, rate] of Object.entries(value)) {
+		if (ignoredFields.includes(field)) {
+			continue;
+		}
+		if (!PRICE_FIELDS.includes(field as PriceField)) {
+			fail(`unknown price field "${field}" in "${label}".`);
+		}
+		if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+			fail(`"${label}.${field}" must be a non-negative USD amount per token.`);
+		}
+		pricing[field as PriceField] = rate as number;
+	}
+	return pricing;
+}
+
+export const DEFAULT_PRICING_OVERRIDES_FILE = path.join(
+	getHomeDirectory(),
+	'.agents-usage',
+	'pricing-overrides.json',
+);
+
+export const EMPTY_PRICING_OVERRIDES: PricingOverrides = { file: null, models: [], discounts: [] };
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+	if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+		return null;
+	}
+	return value as Record<string, unknown>;
+}
+
+// Dates are whole UTC days; `until` is inclusive, so it is stored as the start of the next day.
+function parseEffectiveDate(
+	value: unknown,
+	label: string,
+	isEnd: boolean,
+	fail: (message: string) => never,
+): Date | null {
+	if (value == null) {
+		return null;
+	}
+	const match = typeof value === 'string' ? DATE_PATTERN.exec(value.trim()) : null;
+	if (match == null) {
+		return fail(`"${label}" must be a YYYY-MM-DD date.`);
+	}
+	const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + (isEnd ? 1 : 0)));
+	if (Number.isNaN(date.getTime())) {
+		return fail(`"${label}" is not a valid date.`);
+	}
+	return date;
+}
+
+function parseEffectiveRange(
+	record: Record<string, unknown>,
+	label: string,
+	fail: (message: string) => never,
+): { from: Date | null; until: Date | null } {
+	const from = parseEffectiveDate(record.from, `${label}.from`, false, fail);
+	const until = parseEffectiveDate(record.until, `${label}.until`, true, fail);
+	if (from != null && until != null && until <= from) {
+		fail(`"${label}" ends before it starts.`);
+	}
+	return { from, until };
+}
+
+export function parsePricingOverrides(raw: unknown, filePath: string): PricingOverrides {
+	const fail = (message: string): never => {
+		throw new Error(`${filePath}: ${message}`);
+	};
+	const record = asRecord(raw) ?? fail('expected a JSON object.');
+	const overrides: PricingOverrides = { file: filePath, models: [], discounts: [] };
+
+	const models = record.models == null ? {} : (asRecord(record.models) ?? fail('"models" must be an object.'));
+	for (const [model, value] of Object.entries(models)) {
+		// A model maps to one record, or to a list of records with effective dates.
+		const items = Array.isArray(value) ? value : [value];
+		items.forEach((item, index) => {
+			const label = Array.isArray(value) ? `models.${model}[${index}]` : `models.${model}`;
+			const itemRecord = asRecord(item) ?? fail(`"${label}" must be an object.`);
+			overrides.models.push({
+				model: model.trim(),
+				record: readPricingRecord(itemRecord, label, fail, ['from', 'until']),
+				...parseEffectiveRange(itemRecord, label, fail),
+			});
+		});
+	}
+
+	const discounts = record.discounts ?? [];
+	if (!Array.isArray(discounts)) {
+		fail('"discounts" must be a list.');
+	}
+	(discounts as unknown[]).forEach((item, index) => {
+		const label = `discounts[${index}]`;
+		const itemRecord = asRecord(item) ?? fail(`"${label}" must be an object.`);
+		const provider = typeof itemRecord.provider === 'string' ? itemRecord.provider.trim().toLowerCase() : '';
+		if (provider === '') {
+			fail(`"${label}.provider" must be a provider name such as "anthropic".`);
+		}
+		const percent = itemRecord.percent;
+		if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent >= 100) {
+			fail(`"${label}.percent" must be a number between 0 and 100.`);
+		}
+		overrides.discounts.push({
+			provider,
+			percent: percent as number,
+			...parseEffectiveRange(itemRecord, label, fail),
+		});
+	});
+
+	return overrides;
+}
+
+// A missing file is not an error; a malformed one is.
+export async function loadPricingOverrides(
+	filePath = DEFAULT_PRICING_OVERRIDES_FILE,
+): Promise<PricingOverrides> {
+	let content: string;
+	try {
+		content = await readFile(filePath, 'utf8');
+	} catch {
+		return EMPTY_PRICING_OVERRIDES;
+	}
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content) as unknown;
+	} catch (error) {
+		throw new Error(`${filePath}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+	}
+	return parsePricingOverrides(raw, filePath);
+}
+
+function isEffective(range: { from: Date | null; until: Date | null }, timestamp: Date): boolean {
+	return (range.from == null || timestamp >= range.from) && (range.until == null || timestamp < range.until);
+}
+
+// Candidates are tried in order, so an exact model name beats an alias or provider-prefixed key.
+export function findModelOverride(
+	overrides: PricingOverrides,
+	candidates: string[],
+	timestamp: Date,
+): ModelPriceOverride | null {
+	for (const candidate of candidates) {
+		const match = overrides.models.find(
+			(override) => override.model === candidate && isEffective(override, timestamp),
+		);
+		if (match != null) {
+			return match;
+		}
+	}
+	return null;
+}
+
+export function findProviderDiscount(
+	overrides: PricingOverrides,
+	provider: string,
+	timestamp: Date,
+): ProviderDiscount | null {
+	const normalized = provider.toLowerCase();
+	return (
+		overrides.discounts.find(
+			(discount) => discount.provider === normalized && isEffective(discount, timestamp),
+		) ?? null
+	);
+}
@@ -1,20 +1,64 @@
-import type { UsageEntry } from './types.js';
+import type { PricingOverrides } from './pricing-overrides.js';
+import type { CostBreakdown, UsageEntry } from './types.js';
+import { findModelOverride, findProviderDiscount, PRICE_FIELDS } from './pricing-overrides.js';
 import { getHomeDirectory, readJsonFile, writeJsonFile } from './utils.js';
+import { readdir } from 'node:fs/promises';
 import path from 'node:path';
 
 export type PricingRecord = {
+	litellm_provider?: string;
 	input_cost_per_token?: number;
 	output_cost_per_token?: number;
 	cache_creation_input_token_cost?: number;
+	cache_creation_input_token_cost_above_1hr?: number;
 	cache_read_input_token_cost?: number;
 	input_cost_per_token_above_200k_tokens?: number;
 	output_cost_per_token_above_200k_tokens?: number;
 	cache_creation_input_token_cost_above_200k_tokens?: number;
 	cache_read_input_token_cost_above_200k_tokens?: number;
+	// Not a LiteLLM field: a flat per-request rate, set in overrides or derived from
+	// `search_context_cost_per_query`.
+	web_search_cost_per_request?: number;
+	// LiteLLM's per-query web search rates by search context size.
+	search_context_cost_per_query?: Partial<Record<SearchContextSize, number>>;
 };
 
+type SearchContextSize = 'search_context_size_low' | 'search_context_size_medium' | 'search_context_size_high';
+
 export type PricingMap = Record<string, PricingRecord>;
 
+export type PriceField = Exclude<keyof PricingRecord, 'litellm_provider' | 'search_context_cost_per_query'>;
+
+// LiteLLM prices as fetched on `date` (UTC day), kept so past months keep their original rates.
+export type PricingSnapshot = {
+	date: string;
+	pricingMap: PricingMap;
+};
+
+// Everything cost estimation needs: LiteLLM list prices plus the local overrides file.
+export type PricingContext = {
+	pricingMap: PricingMap;
+	// Sorted by date. When non-empty, each entry is priced with the snapshot in effect at its
+	// timestamp instead of `pricingMap`.
+	snapshots: PricingSnapshot[];
+	overrides: PricingOverrides;
+	// Disables the fuzzy substring match, leaving models without an exact or suffix match unpriced.
+	strict: boolean;
+};
+
+export type PricingExplanation = {
+	// null when the model could not be priced.
+	stage: PricingMatchStage | null;
+	// Pricing key that matched (or the override's model name when only an override matched).
+	key: string | null;
+	// Effective rates after overrides.
+	record: PricingRecord | null;
+	snapshotDate: string | null;
+	overridden: boolean;
+	provider: string;
+	discountPercent: number | null;
+};
+
 type PricingCacheFile = {
 	fetchedAt: string;
 	data: PricingMap;
@@ -32,6 +76,8 @@ const LITELLM_PRICING_URL =
 	'https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json';
 const CACHE_FILE = path.join(getHomeDirectory(), '.agents-usage', 'litellm-pricing-cache.json');
 const CACHE_MAX_AGE_MS = 1000 * 60 * 60 * 24; // 24 hours
+const SNAPSHOT_DIR = path.join(getHomeDirectory(), '.agents-usage', 'pricing-snapshots');
+const SNAPSHOT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.json$/;
 
 const MODEL_ALIASES = new Map<string, string>([
 	['gpt-5-codex', 'gpt-5'],
@@ -41,6 +87,44 @@ const MODEL_ALIASES = new Map<string, string>([
 	['gemini-3-pro-high', 'gemini-3-pro-preview'],
 ]);
 
+// Merges user-defined aliases (from the config file) over the built-in ones.
+export function registerModelAliases(aliases: Record<string, string>): void {
+	for (const [model, target] of Object.entries(aliases)) {
+		MODEL_ALIASES.set(model, target);
+	}
+}
+
+export function listModelAliases(): Array<[string, string]> {
+	return [...MODEL_ALIASES.entries()];
+}
+
+// Claude bills web search at a flat rate, which LiteLLM repeats for every context size; for
+// models where the sizes differ, the medium (default) size is used.
+export function webSearchCostPerRequest(record: PricingRecord): number | undefined {
+	if (record.web_search_cost_per_request != null) {
+		return record.web_search_cost_per_request;
+	}
+	const bySize = record.search_context_cost_per_query;
+	if (bySize == null || typeof bySize !== 'object') {
+		return undefined;
+	}
+	const rate =
+		bySize.search_context_size_medium ?? bySize.search_context_size_low ?? bySize.search_context_size_high;
+	return typeof rate === 'number' && Number.isFinite(rate) ? rate : undefined;
+}
+
+// Per-model overrides replace individual rates of a matching record, or add a new record.
+export function applyPricingOverrides(pricingMap: PricingMap, overrides: PricingMap): PricingMap {
+	if (Object.keys(overrides).length === 0) {
+		return pricingMap;
+	}
+	const merged: PricingMap = { ...pricingMap };
+	for (const [model, record] of Object.entries(overrides)) {
+		merged[model] = { ...pricingMap[model], ...record };
+	}
+	return merged;
+}
+
 function isFresh(timestamp: string): boolean {
 	const time = new Date(timestamp).getTime();
 	if (!Number.isFinite(time)) {
@@ -60,12 +144,140 @@ async function readCache(): Promise<PricingCacheFile | null> {
 	return cached;
 }
 
+// Snapshots keep only the fields used for pricing; the full LiteLLM file is several megabytes.
+function trimPricingMap(pricingMap: PricingMap): PricingMap {
+	const trimmed: PricingMap = {};
+	for (const [model, record] of Object.entries(pricingMap)) {
+		if (record == null || typeof record !== 'object') {
+			continue;
+		}
+		const kept: PricingRecord = {};
+		for (const field of PRICE_FIELDS) {
+			const value = field === 'web_search_cost_per_request' ? webSearchCostPerRequest(record) : record[field];
+			if (typeof value === 'number') {
+				kept[field] = value;
+			}
+		}
+		if (Object.keys(kept).length === 0) {
+			continue;
+		}
+		if (typeof record.litellm_provider === 'string') {
+			kept.litellm_provider = record.litellm_provider;
+		}
+		trimmed[model] = kept;
+	}
+	return trimmed;
+}
+
+export async function listPricingSnapshotDates(): Promise<string[]> {
+	try {
+		const names = await readdir(SNAPSHOT_DIR);
+		return names
+			.map((name) => SNAPSHOT_FILE_PATTERN.exec(name)?.[1])
+			.filter((date): date is string => date != null)
+			.sort();
+	} catch {
+		return [];
+	}
+}
+
+// Index of the last sorted date that is on or before `key`, or -1.
+function lastIndexOnOrBefore(dates: string[], key: string): number {
+	let index = -1;
+	for (let i = 0; i < dates.length && (dates[i] ?? '') <= key; i += 1) {
+		index = i;
+	}
+	return index;
+}
+
+async function readSnapshot(date: string): Promise<PricingSnapshot | null> {
+	const cached = await readJsonFile<PricingCacheFile>(path.join(SNAPSHOT_DIR, `${date}.json`));
+	if (cached?.data == null || typeof cached.data !== 'object') {
+		return null;
+	}
+	return { date, pricingMap: cached.data };
+}
+
+// Writes today's snapshot only when prices differ from the latest one on disk.
+async function writeSnapshot(data: PricingMap, fetchedAt: string): Promise<void> {
+	const trimmed = trimPricingMap(data);
+	const dates = await listPricingSnapshotDates();
+	const latestDate = dates[dates.length - 1];
+	const latest = latestDate == null ? null : await readSnapshot(latestDate);
+	if (latest != null && JSON.stringify(latest.pricingMap) === JSON.stringify(trimmed)) {
+		return;
+	}
+	const payload: PricingCacheFile = { fetchedAt, data: trimmed };
+	await writeJsonFile(path.join(SNAPSHOT_DIR, `${fetchedAt.slice(0, 10)}.json`), payload);
+}
+
 async function writeCache(data: Record<string, PricingRecord>): Promise<void> {
 	const payload: PricingCacheFile = {
 		fetchedAt: new Date().toISOString(),
 		data,
 	};
 	await writeJsonFile(CACHE_FILE, payload);
+	await writeSnapshot(data, payload.fetchedAt);
+}
+
+// Snapshots are written after a successful fetch, so offline users may have none yet. The cache
+// file then becomes the first snapshot, dated by when it was fetched.
+async function listSnapshotDatesSeededFromCache(): Promise<string[]> {
+	const dates = await listPricingSnapshotDates();
+	if (dates.length > 0) {
+		return dates;
+	}
+	const cached = await readJsonFile<PricingCacheFile>(CACHE_FILE);
+	const fetchedAt = typeof cached?.fetchedAt === 'string' ? Date.parse(cached.fetchedAt) : Number.NaN;
+	if (cached?.data == null || Number.isNaN(fetchedAt)) {
+		return dates;
+	}
+	try {
+		await writeSnapshot(cached.data, new Date(fetchedAt).toISOString());
+	} catch {
+		return dates;
+	}
+	return listPricingSnapshotDates();
+}
+
+// Loads the snapshots needed to price entries between `start` and `endExclusive`: the one in
+// effect at `start` plus any taken later inside the range.
+export async function loadPricingSnapshots(start: Date, endExclusive: Date): Promise<PricingSnapshot[]> {
+	const dates = await listSnapshotDatesSeededFromCache();
+	const startKey = start.toISOString().slice(0, 10);
+	const endKey = endExclusive.toISOString().slice(0, 10);
+	const firstIndex = Math.max(0, lastIndexOnOrBefore(dates, startKey));
+	const needed = dates.slice(firstIndex).filter((date) => date <= endKey);
+	const snapshots = await Promise.all(needed.map(readSnapshot));
+	return snapshots.filter((snapshot): snapshot is PricingSnapshot => snapshot != null);
+}
+
+// Pins pricing to the snapshot in effect on `date` (YYYY-MM-DD).
+export async function loadPricingSnapshotAt(date: string): Promise<PricingSnapshot> {
+	const dates = await listSnapshotDatesSeededFromCache();
+	const match = dates[lastIndexOnOrBefore(dates, date)];
+	if (match == null) {
+		const available = dates.length > 0 ? `Earliest snapshot: ${dates[0]}.` : 'No snapshots saved yet.';
+		throw new Error(`No pricing snapshot on or before ${date}. ${available}`);
+	}
+	const snapshot = await readSnapshot(match);
+	if (snapshot == null) {
+		throw new Error(`Pricing snapshot ${match} could not be read.`);
+	}
+	return snapshot;
+}
+
+// Entries older than every snapshot use the earliest one, which is the closest known prices.
+function snapshotAt(pricing: PricingContext, timestamp: Date): PricingSnapshot | null {
+	const key = timestamp.toISOString().slice(0, 10);
+	let match = pricing.snapshots[0];
+	for (const snapshot of pricing.snapshots) {
+		if (snapshot.date > key) {
+			break;
+		}
+		match = snapshot;
+	}
+	return match ?? null;
 }
 
 async function fetchLiteLLMPricing(): Promise<PricingMap | null> {
@@ -218,20 +430,43 @@ function pricingCandidates(entry: UsageEntry): string[] {
 			candidates.add(`azure/${baseModel}`);
 			candidates.add(`openrouter/openai/${baseModel}`);
 		}
+		if (entry.source === 'gemini') {
+			candidates.add(`gemini/${baseModel}`);
+			candidates.add(`vertex_ai/${baseModel}`);
+		}
 	}
 
 	return [...candidates];
 }
 
+// 'alias' means the model name was rewritten (version alias or configured alias) before matching;
+// 'prefix' means the raw model name matched under a provider prefix such as "openai/".
+export type PricingMatchStage = 'exact' | 'alias' | 'prefix' | 'suffix' | 'fuzzy' | 'override';
+
+type PricingMatch = {
+	stage: Exclude<PricingMatchStage, 'override'>;
+	key: string;
+	record: PricingRecord;
+};
+
+function candidateMatchStage(model: string, candidate: string): 'exact' | 'alias' | 'prefix' {
+	if (candidate === model) {
+		return 'exact';
+	}
+	return candidate.endsWith(`/${model}`) ? 'prefix' : 'alias';
+}
+
 function resolvePricing(
 	pricingMap: PricingMap,
 	entry: UsageEntry,
-): PricingRecord | null {
-	const candidates = pricingCandidates(entry);
+	candidates: string[],
+	strict: boolean,
+): PricingMatch | null {
+	const model = entry.model.trim();
 	for (const candidate of candidates) {
 		const match = pricingMap[candidate];
 		if (match != null) {
-			return match;
+			return { stage: candidateMatchStage(model, candidate), key: candidate, record: match };
 		}
 	}
 
@@ -240,14 +475,18 @@ function resolvePricing(
 	for (const [key, value] of Object.entries(pricingMap)) {
 		for (const suffix of suffixes) {
 			if (key.endsWith(suffix)) {
-				return value;
+				return { stage: 'suffix', key, record: value };
 			}
 		}
 	}
 
+	if (strict) {
+		return null;
+	}
+
 	// ccusage-style fuzzy fallback: match by substring in either direction.
 	const modelLower = entry.model.trim().toLowerCase();
-	let best: { score: number; pricing: PricingRecord } | null = null;
+	let best: { score: number; match: PricingMatch } | null = null;
 	for (const [key, value] of Object.entries(pricingMap)) {
 		const keyLower = key.toLowerCase();
 		const isMatch = keyLower.includes(modelLower) || modelLower.includes(keyLower);
@@ -259,12 +498,12 @@ function resolvePricing(
 		if (best == null || score > best.score) {
 			best = {
 				score,
-				pricing: value,
+				match: { stage: 'fuzzy', key, record: value },
 			};
 		}
 	}
 	if (best != null) {
-		return best.pricing;
+		return best.match;
 	}
 
 	return null;
@@ -295,52 +534,192 @@ function calculateTieredCost(
 	return totalTokens * base;
 }
 
-export function estimateEntryCostUSD(
-	pricingMap: PricingMap,
+function defaultProvider(entry: UsageEntry): string {
+	if (entry.provider != null && entry.provider.trim() !== '') {
+		return entry.provider.trim();
+	}
+	switch (entry.source) {
+		case 'claude':
+			return 'anthropic';
+		case 'codex':
+			return 'openai';
+		case 'gemini':
+			return 'gemini';
+		default:
+			return entry.source;
+	}
+}
+
+// Multiplier for the provider discount an explanation found; 1 when there is none.
+function discountFactor(explanation: PricingExplanation): number {
+	return explanation.discountPercent == null ? 1 : 1 - explanation.discountPercent / 100;
+}
+
+// Provider-wide discounts model negotiated rates on top of list prices (estimated or logged). Uses
+// the same rules as estimates, so models with an override are not discounted. Pass the entry's
+// explanation when it is already at hand to skip a second pricing lookup.
+export function applyProviderDiscount(
+	pricing: PricingContext,
 	entry: UsageEntry,
-): number | null {
-	const pricing = resolvePricing(pricingMap, entry);
-	if (pricing == null) {
-		return null;
+	costUSD: number,
+	explanation?: PricingExplanation,
+): number {
+	if (pricing.overrides.discounts.length === 0) {
+		return costUSD;
+	}
+	return costUSD * discountFactor(explanation ?? explainEntryPricing(pricing, entry));
+}
+
+export function explainEntryPricing(pricingContext: PricingContext, entry: UsageEntry): PricingExplanation {
+	const candidates = pricingCandidates(entry);
+	const snapshot = snapshotAt(pricingContext, entry.timestamp);
+	const match = resolvePricing(
+		snapshot?.pricingMap ?? pricingContext.pricingMap,
+		entry,
+		candidates,
+		pricingContext.strict,
+	);
+	const override = findModelOverride(pricingContext.overrides, candidates, entry.timestamp);
+	const provider = match?.record.litellm_provider ?? defaultProvider(entry);
+	// An override replaces individual list rates and is taken as the negotiated price as-is.
+	const discount =
+		override == null ? findProviderDiscount(pricingContext.overrides, provider, entry.timestamp) : null;
+	let record = match?.record ?? null;
+	if (override != null) {
+		record = { ...record, ...override.record };
+	}
+	return {
+		stage: match?.stage ?? (override != null ? 'override' : null),
+		key: match?.key ?? override?.model ?? null,
+		record,
+		snapshotDate: snapshot?.date ?? null,
+		overridden: override != null,
+		provider,
+		discountPercent: discount?.percent ?? null,
+	};
+}
+
+export type EntryTokenSplit = {
+	freshInput: number;
+	output: number;
+	reasoningOutput: number;
+	cacheWrite: number;
+	cacheWrite1h: number;
+	cacheRead: number;
+};
+
+// Anthropic bills 1-hour cache writes at twice the input rate. Models LiteLLM lists without a
+// 1-hour rate fall back to that multiple, or to the 5-minute write rate when input is unpriced too.
+const ONE_HOUR_CACHE_WRITE_INPUT_MULTIPLIER = 2;
+
+function oneHourCacheWriteCost(
+	oneHourCost: number | undefined,
+	inputCost: number | undefined,
+	fiveMinuteCost: number | undefined,
+): number | undefined {
+	if (oneHourCost != null) {
+		return oneHourCost;
 	}
+	return inputCost != null ? inputCost * ONE_HOUR_CACHE_WRITE_INPUT_MULTIPLIER : fiveMinuteCost;
+}
 
-	const isCodexLikeInput = entry.source === 'codex';
-	const cacheRead = isCodexLikeInput
+// Token counts as billed: fresh input excludes cache reads, and reasoning is billed as output.
+export function splitEntryTokens(entry: UsageEntry): EntryTokenSplit {
+	const cacheRead = entry.inputIncludesCacheReads
 		? Math.max(Math.min(entry.cacheReadTokens, entry.inputTokens), 0)
 		: Math.max(entry.cacheReadTokens, 0);
-	const nonCachedInput = isCodexLikeInput
-		? Math.max(entry.inputTokens - cacheRead, 0)
-		: Math.max(entry.inputTokens, 0);
-	const cacheWrite = Math.max(entry.cacheWriteTokens, 0);
-	// Codex logs separate reasoning_output_tokens from output_tokens; bill them as output tokens.
-	const output = Math.max(
-		entry.outputTokens + (entry.source === 'codex' ? entry.reasoningOutputTokens : 0),
-		0,
-	);
+	return {
+		freshInput: entry.inputIncludesCacheReads
+			? Math.max(entry.inputTokens - cacheRead, 0)
+			: Math.max(entry.inputTokens, 0),
+		output: Math.max(entry.outputTokens, 0),
+		// Claude folds thinking into output_tokens and logs no separate reasoning count.
+		reasoningOutput: Math.max(entry.reasoningOutputTokens, 0),
+		cacheWrite: Math.max(entry.cacheWriteTokens, 0),
+		cacheWrite1h: Math.min(Math.max(entry.cacheWrite1hTokens, 0), Math.max(entry.cacheWriteTokens, 0)),
+		cacheRead,
+	};
+}
 
-	const total =
-		calculateTieredCost(
-			nonCachedInput,
-			pricing.input_cost_per_token,
-			pricing.input_cost_per_token_above_200k_tokens,
-		) +
-		calculateTieredCost(
-			output,
-			pricing.output_cost_per_token,
-			pricing.output_cost_per_token_above_200k_tokens,
-		) +
+export function estimateEntryCostBreakdown(
+	pricingContext: PricingContext,
+	entry: UsageEntry,
+	explanation = explainEntryPricing(pricingContext, entry),
+): CostBreakdown | null {
+	const pricing = explanation.record;
+	if (pricing == null) {
+		return null;
+	}
+
+	const tokens = splitEntryTokens(entry);
+	const inputUSD = calculateTieredCost(
+		tokens.freshInput,
+		pricing.input_cost_per_token,
+		pricing.input_cost_per_token_above_200k_tokens,
+	);
+	// The 200k tier applies to all output of a request, so price it together and split by share.
+	const allOutput = tokens.output + tokens.reasoningOutput;
+	const allOutputUSD = calculateTieredCost(
+		allOutput,
+		pricing.output_cost_per_token,
+		pricing.output_cost_per_token_above_200k_tokens,
+	);
+	const reasoningOutputUSD = allOutput === 0 ? 0 : allOutputUSD * (tokens.reasoningOutput / allOutput);
+	const cacheWriteUSD =
 		calculateTieredCost(
-			cacheWrite,
+			tokens.cacheWrite - tokens.cacheWrite1h,
 			pricing.cache_creation_input_token_cost,
 			pricing.cache_creation_input_token_cost_above_200k_tokens,
 		) +
 		calculateTieredCost(
-			cacheRead,
-			pricing.cache_read_input_token_cost,
-			pricing.cache_read_input_token_cost_above_200k_tokens,
+			tokens.cacheWrite1h,
+			oneHourCacheWriteCost(
+				pricing.cache_creation_input_token_cost_above_1hr,
+				pricing.input_cost_per_token,
+				pricing.cache_creation_input_token_cost,
+			),
+			oneHourCacheWriteCost(
+				undefined,
+				pricing.input_cost_per_token_above_200k_tokens,
+				pricing.cache_creation_input_token_cost_above_200k_tokens,
+			),
 		);
+	const cacheReadUSD = calculateTieredCost(
+		tokens.cacheRead,
+		pricing.cache_read_input_token_cost,
+		pricing.cache_read_input_token_cost_above_200k_tokens,
+	);
+	const uncachedInputUSD = calculateTieredCost(
+		tokens.freshInput + tokens.cacheWrite + tokens.cacheRead,
+		pricing.input_cost_per_token,
+		pricing.input_cost_per_token_above_200k_tokens,
+	);
+
+	const webSearchUSD = Math.max(entry.webSearchRequests, 0) * safeCost(webSearchCostPerRequest(pricing));
+
+	const total = inputUSD + allOutputUSD + cacheWriteUSD + cacheReadUSD + webSearchUSD;
+	if (!Number.isFinite(total)) {
+		return null;
+	}
+	const factor = discountFactor(explanation);
+	return {
+		totalUSD: total * factor,
+		inputUSD: inputUSD * factor,
+		outputUSD: (allOutputUSD - reasoningOutputUSD) * factor,
+		reasoningOutputUSD: reasoningOutputUSD * factor,
+		cacheWriteUSD: cacheWriteUSD * factor,
+		cacheReadUSD: cacheReadUSD * factor,
+		webSearchUSD: webSearchUSD * factor,
+		unattributedUSD: 0,
+		cacheSavingsUSD: (uncachedInputUSD - inputUSD - cacheWriteUSD - cacheReadUSD) * factor,
+	};
+}
 
-	return Number.isFinite(total) ? total : null;
+export function estimateEntryCostUSD(
+	pricingContext: PricingContext,
+	entry: UsageEntry,
+): number | null {
+	return estimateEntryCostBreakdown(pricingContext, entry)?.totalUSD ?? null;
 }
 
 export type PricingStatus = {
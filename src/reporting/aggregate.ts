@@ -1,51 +1,262 @@
-import type { PricingMap } from '../pricing.js';
-import type { SourceKind, SourceSummary, UsageEntry } from '../types.js';
+import type { PricingContext } from '../pricing.js';
+import type {
+	BillingBlock,
+	BlockProjection,
+	BudgetScope,
+	BudgetStatus,
+	CacheUsage,
+	CostBreakdown,
+	DateWindow,
+	MetricKind,
+	ModelPricingRow,
+	MonthForecast,
+	MonthTotals,
+	RateLimitDay,
+	RateLimitReport,
+	RateLimitSnapshot,
+	SessionSortKind,
+	SessionSummary,
+	SourceKind,
+	SourceSummary,
+	SourceTrend,
+	UsageEntry,
+	UsageGroup,
+	UsageProfile,
+} from '../types.js';
 import type { RenderSummary } from './types.js';
-import { estimateEntryCostUSD } from '../pricing.js';
 import {
+	applyProviderDiscount,
+	estimateEntryCostBreakdown,
+	estimateEntryCostUSD,
+	explainEntryPricing,
+	splitEntryTokens,
+} from '../pricing.js';
+import {
+	getZonedParts,
+	globToRegExp,
 	makeEmptyDayBuckets,
-	monthContainsDate,
-	monthDayIndex,
-	parseMonthWindow,
+	makeEmptyUsageGroup,
+	monthKeyForDate,
 	totalTokens,
+	windowContainsDate,
+	windowDayDates,
+	windowDayIndex,
+	zonedCalendarDate,
 } from '../utils.js';
+import path from 'node:path';
+
+export const UNKNOWN_PROJECT = '(unknown)';
+export const BLOCK_DURATION_MS = 5 * 60 * 60 * 1000;
+export const DEFAULT_BUDGET_WARN_AT = [80];
+export const FORECAST_TRAILING_DAYS = 7;
+const FORECAST_MIN_HISTORY_DAYS = 3;
+// z-score for a two-sided 80% interval.
+const FORECAST_Z = 1.28;
+const HOUR_MS = 60 * 60 * 1000;
+
+function groupFor(groups: Map<string, UsageGroup>, key: string): UsageGroup {
+	let group = groups.get(key);
+	if (group == null) {
+		group = makeEmptyUsageGroup(key);
+		groups.set(key, group);
+	}
+	return group;
+}
+
+function addEntryToGroup(
+	group: UsageGroup,
+	entry: UsageEntry,
+	costUSD: number | null,
+	shouldComputeCost: boolean,
+): void {
+	group.entryCount += 1;
+	group.inputTokens += entry.inputTokens;
+	group.outputTokens += entry.outputTokens;
+	group.cacheReadTokens += entry.cacheReadTokens;
+	group.cacheWriteTokens += entry.cacheWriteTokens;
+	group.reasoningOutputTokens += entry.reasoningOutputTokens;
+	group.tokens += totalTokens(entry);
+	if (!shouldComputeCost) {
+		return;
+	}
+	if (costUSD == null) {
+		group.unknownCostEntries += 1;
+	} else {
+		group.costUSD += costUSD;
+	}
+}
+
+function mergeGroupInto(groups: Map<string, UsageGroup>, group: UsageGroup): void {
+	const target = groupFor(groups, group.key);
+	target.entryCount += group.entryCount;
+	target.inputTokens += group.inputTokens;
+	target.outputTokens += group.outputTokens;
+	target.cacheReadTokens += group.cacheReadTokens;
+	target.cacheWriteTokens += group.cacheWriteTokens;
+	target.reasoningOutputTokens += group.reasoningOutputTokens;
+	target.tokens += group.tokens;
+	target.costUSD += group.costUSD;
+	target.unknownCostEntries += group.unknownCostEntries;
+}
+
+export function sortUsageGroups(groups: Iterable<UsageGroup>, metric: MetricKind): UsageGroup[] {
+	return [...groups].sort((left, right) => {
+		const primary =
+			metric === 'cost' ? right.costUSD - left.costUSD : right.tokens - left.tokens;
+		if (primary !== 0) {
+			return primary;
+		}
+		const secondary = metric === 'cost' ? right.tokens - left.tokens : right.costUSD - left.costUSD;
+		return secondary !== 0 ? secondary : left.key.localeCompare(right.key);
+	});
+}
+
+export function resolveEntryCostUSD(pricing: PricingContext, entry: UsageEntry): number | null {
+	if (entry.costUSD != null && Number.isFinite(entry.costUSD)) {
+		return applyProviderDiscount(pricing, entry, entry.costUSD);
+	}
+	return estimateEntryCostUSD(pricing, entry);
+}
+
+export function makeEmptyCostBreakdown(): CostBreakdown {
+	return {
+		totalUSD: 0,
+		inputUSD: 0,
+		outputUSD: 0,
+		reasoningOutputUSD: 0,
+		cacheWriteUSD: 0,
+		cacheReadUSD: 0,
+		webSearchUSD: 0,
+		unattributedUSD: 0,
+		cacheSavingsUSD: 0,
+	};
+}
+
+function addCostBreakdown(target: CostBreakdown, breakdown: CostBreakdown): void {
+	target.totalUSD += breakdown.totalUSD;
+	target.inputUSD += breakdown.inputUSD;
+	target.outputUSD += breakdown.outputUSD;
+	target.reasoningOutputUSD += breakdown.reasoningOutputUSD;
+	target.cacheWriteUSD += breakdown.cacheWriteUSD;
+	target.cacheReadUSD += breakdown.cacheReadUSD;
+	target.webSearchUSD += breakdown.webSearchUSD;
+	target.unattributedUSD += breakdown.unattributedUSD;
+	target.cacheSavingsUSD += breakdown.cacheSavingsUSD;
+}
+
+function makeEmptyCacheUsage(): CacheUsage {
+	return { freshInputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0 };
+}
+
+function addCacheUsage(target: CacheUsage, cache: CacheUsage): void {
+	target.freshInputTokens += cache.freshInputTokens;
+	target.cacheWriteTokens += cache.cacheWriteTokens;
+	target.cacheReadTokens += cache.cacheReadTokens;
+}
+
+// Share of prompt tokens served from cache; null when there was no input at all.
+export function cacheHitRatio(cache: CacheUsage): number | null {
+	const promptTokens = cache.freshInputTokens + cache.cacheWriteTokens + cache.cacheReadTokens;
+	return promptTokens === 0 ? null : cache.cacheReadTokens / promptTokens;
+}
+
+// Logged costs carry no split, so they are spread over the categories in proportion to the
+// estimate; without rates the whole logged cost is unattributed.
+export function resolveEntryCostBreakdown(
+	pricing: PricingContext,
+	entry: UsageEntry,
+): CostBreakdown | null {
+	const explanation = explainEntryPricing(pricing, entry);
+	const estimate = estimateEntryCostBreakdown(pricing, entry, explanation);
+	if (entry.costUSD == null || !Number.isFinite(entry.costUSD)) {
+		return estimate;
+	}
+
+	const loggedUSD = applyProviderDiscount(pricing, entry, entry.costUSD, explanation);
+	if (estimate == null || estimate.totalUSD <= 0) {
+		return { ...makeEmptyCostBreakdown(), totalUSD: loggedUSD, unattributedUSD: loggedUSD };
+	}
+	const scale = loggedUSD / estimate.totalUSD;
+	return {
+		totalUSD: loggedUSD,
+		inputUSD: estimate.inputUSD * scale,
+		outputUSD: estimate.outputUSD * scale,
+		reasoningOutputUSD: estimate.reasoningOutputUSD * scale,
+		cacheWriteUSD: estimate.cacheWriteUSD * scale,
+		cacheReadUSD: estimate.cacheReadUSD * scale,
+		webSearchUSD: estimate.webSearchUSD * scale,
+		unattributedUSD: 0,
+		cacheSavingsUSD: estimate.cacheSavingsUSD * scale,
+	};
+}
+
+export function filterEntriesByProject(entries: UsageEntry[], patterns: string[]): UsageEntry[] {
+	if (patterns.length === 0) {
+		return entries;
+	}
+
+	const matchers = patterns.map((pattern) => globToRegExp(pattern));
+	return entries.filter((entry) => {
+		const project = entry.project ?? UNKNOWN_PROJECT;
+		const baseName = path.basename(project);
+		return matchers.some((matcher) => matcher.test(project) || matcher.test(baseName));
+	});
+}
 
 export function aggregateSourceSummary(
 	source: SourceKind,
 	label: string,
-	month: string,
+	window: DateWindow,
 	entries: UsageEntry[],
-	pricingMap: PricingMap,
+	pricing: PricingContext,
 	shouldComputeCost: boolean,
 ): SourceSummary {
-	const monthWindow = parseMonthWindow(month);
-	const dayBuckets = makeEmptyDayBuckets(monthWindow.daysInMonth);
+	const dayBuckets = makeEmptyDayBuckets(window.dayCount);
+	const models = new Map<string, UsageGroup>();
+	const projects = new Map<string, UsageGroup>();
+	const costBreakdown = makeEmptyCostBreakdown();
+	const cache = makeEmptyCacheUsage();
+	let webSearchRequests = 0;
 
 	for (const entry of entries) {
-		if (!monthContainsDate(monthWindow, entry.timestamp)) {
+		if (!windowContainsDate(window, entry.timestamp)) {
 			continue;
 		}
 
-		const index = monthDayIndex(entry.timestamp);
+		const index = windowDayIndex(window, entry.timestamp);
 		const bucket = dayBuckets[index];
 		if (bucket == null) {
 			continue;
 		}
 
+		webSearchRequests += entry.webSearchRequests;
+		const tokens = splitEntryTokens(entry);
+		addCacheUsage(cache, {
+			freshInputTokens: tokens.freshInput,
+			cacheWriteTokens: tokens.cacheWrite,
+			cacheReadTokens: tokens.cacheRead,
+		});
+		const breakdown = shouldComputeCost ? resolveEntryCostBreakdown(pricing, entry) : null;
+		if (breakdown != null) {
+			addCostBreakdown(costBreakdown, breakdown);
+		}
+		const costUSD = breakdown?.totalUSD ?? null;
+		addEntryToGroup(groupFor(models, entry.model), entry, costUSD, shouldComputeCost);
+		addEntryToGroup(
+			groupFor(projects, entry.project ?? UNKNOWN_PROJECT),
+			entry,
+			costUSD,
+			shouldComputeCost,
+		);
+
 		bucket.entryCount += 1;
 		bucket.tokens += totalTokens(entry);
 
 		if (shouldComputeCost) {
-			if (entry.costUSD != null && Number.isFinite(entry.costUSD)) {
-				bucket.costUSD += entry.costUSD;
-				continue;
-			}
-
-			const estimated = estimateEntryCostUSD(pricingMap, entry);
-			if (estimated == null) {
+			if (costUSD == null) {
 				bucket.unknownCostEntries += 1;
 			} else {
-				bucket.costUSD += estimated;
+				bucket.costUSD += costUSD;
 			}
 		}
 	}
@@ -64,20 +275,35 @@ export function aggregateSourceSummary(
 	return {
 		source,
 		label,
-		month,
+		window,
 		dayBuckets,
+		models: sortUsageGroups(models.values(), 'cost'),
+		projects: sortUsageGroups(projects.values(), 'cost'),
 		totalCostUSD,
 		totalTokens: totalTokensValue,
 		totalEntries,
 		unknownCostEntries,
+		costBreakdown,
+		cache,
+		webSearchRequests,
 	};
 }
 
-export function aggregateCombinedSummary(month: string, summaries: SourceSummary[]): RenderSummary {
-	const monthWindow = parseMonthWindow(month);
-	const dayBuckets = makeEmptyDayBuckets(monthWindow.daysInMonth);
+export function aggregateCombinedSummary(
+	window: DateWindow,
+	summaries: SourceSummary[],
+): RenderSummary {
+	const dayBuckets = makeEmptyDayBuckets(window.dayCount);
+	const models = new Map<string, UsageGroup>();
+	const projects = new Map<string, UsageGroup>();
+	const costBreakdown = makeEmptyCostBreakdown();
+	const cache = makeEmptyCacheUsage();
+	let webSearchRequests = 0;
 
 	for (const summary of summaries) {
+		addCostBreakdown(costBreakdown, summary.costBreakdown);
+		addCacheUsage(cache, summary.cache);
+		webSearchRequests += summary.webSearchRequests;
 		for (let index = 0; index < summary.dayBuckets.length; index += 1) {
 			const sourceBucket = summary.dayBuckets[index];
 			const combinedBucket = dayBuckets[index];
@@ -89,6 +315,13 @@ export function aggregateCombinedSummary(month: string, summaries: SourceSummary
 			combinedBucket.entryCount += sourceBucket.entryCount;
 			combinedBucket.unknownCostEntries += sourceBucket.unknownCostEntries;
 		}
+
+		for (const group of summary.models) {
+			mergeGroupInto(models, group);
+		}
+		for (const group of summary.projects) {
+			mergeGroupInto(projects, group);
+		}
 	}
 
 	let totalCostUSD = 0;
@@ -104,11 +337,456 @@ export function aggregateCombinedSummary(month: string, summaries: SourceSummary
 
 	return {
 		label: 'Combined',
-		month,
+		window,
 		dayBuckets,
+		models: sortUsageGroups(models.values(), 'cost'),
+		projects: sortUsageGroups(projects.values(), 'cost'),
 		totalCostUSD,
 		totalTokens: totalTokensValue,
 		totalEntries,
 		unknownCostEntries,
+		costBreakdown,
+		cache,
+		webSearchRequests,
+	};
+}
+
+function makeEmptyMonthTotals(month: string): MonthTotals {
+	return {
+		month,
+		costUSD: 0,
+		tokens: 0,
+		entryCount: 0,
+		unknownCostEntries: 0,
+	};
+}
+
+export function aggregateMonthlyTrend(
+	source: SourceKind,
+	label: string,
+	months: string[],
+	entries: UsageEntry[],
+	pricing: PricingContext,
+	shouldComputeCost: boolean,
+	timeZone: string,
+): SourceTrend {
+	const totals = months.map(makeEmptyMonthTotals);
+	const indexByMonth = new Map(months.map((month, index) => [month, index]));
+
+	for (const entry of entries) {
+		const index = indexByMonth.get(monthKeyForDate(zonedCalendarDate(entry.timestamp, timeZone)));
+		const monthTotals = index == null ? undefined : totals[index];
+		if (monthTotals == null) {
+			continue;
+		}
+
+		monthTotals.entryCount += 1;
+		monthTotals.tokens += totalTokens(entry);
+		if (!shouldComputeCost) {
+			continue;
+		}
+		const costUSD = resolveEntryCostUSD(pricing, entry);
+		if (costUSD == null) {
+			monthTotals.unknownCostEntries += 1;
+		} else {
+			monthTotals.costUSD += costUSD;
+		}
+	}
+
+	return { source, label, months: totals };
+}
+
+export function aggregateCombinedTrend(months: string[], trends: SourceTrend[]): SourceTrend {
+	const totals = months.map(makeEmptyMonthTotals);
+	for (const trend of trends) {
+		trend.months.forEach((sourceTotals, index) => {
+			const combinedTotals = totals[index];
+			if (combinedTotals == null) {
+				return;
+			}
+			combinedTotals.costUSD += sourceTotals.costUSD;
+			combinedTotals.tokens += sourceTotals.tokens;
+			combinedTotals.entryCount += sourceTotals.entryCount;
+			combinedTotals.unknownCostEntries += sourceTotals.unknownCostEntries;
+		});
+	}
+	return { label: 'Combined', months: totals };
+}
+
+export function aggregateUsageProfile(
+	source: SourceKind,
+	label: string,
+	window: DateWindow,
+	entries: UsageEntry[],
+	pricing: PricingContext,
+	shouldComputeCost: boolean,
+	timeZone: string,
+): UsageProfile {
+	const hours = makeEmptyDayBuckets(24);
+	const weekdays = makeEmptyDayBuckets(7);
+
+	for (const entry of entries) {
+		if (!windowContainsDate(window, entry.timestamp)) {
+			continue;
+		}
+
+		const parts = getZonedParts(entry.timestamp, timeZone);
+		const costUSD = shouldComputeCost ? resolveEntryCostUSD(pricing, entry) : null;
+		for (const bucket of [hours[parts.hour], weekdays[(parts.weekday + 6) % 7]]) {
+			if (bucket == null) {
+				continue;
+			}
+			bucket.entryCount += 1;
+			bucket.tokens += totalTokens(entry);
+			if (!shouldComputeCost) {
+				continue;
+			}
+			if (costUSD == null) {
+				bucket.unknownCostEntries += 1;
+			} else {
+				bucket.costUSD += costUSD;
+			}
+		}
+	}
+
+	return { source, label, timeZone, hours, weekdays };
+}
+
+export function aggregateCombinedProfile(timeZone: string, profiles: UsageProfile[]): UsageProfile {
+	const hours = makeEmptyDayBuckets(24);
+	const weekdays = makeEmptyDayBuckets(7);
+	for (const profile of profiles) {
+		for (const [target, buckets] of [
+			[hours, profile.hours],
+			[weekdays, profile.weekdays],
+		] as const) {
+			buckets.forEach((bucket, index) => {
+				const combinedBucket = target[index];
+				if (combinedBucket == null) {
+					return;
+				}
+				combinedBucket.costUSD += bucket.costUSD;
+				combinedBucket.tokens += bucket.tokens;
+				combinedBucket.entryCount += bucket.entryCount;
+				combinedBucket.unknownCostEntries += bucket.unknownCostEntries;
+			});
+		}
+	}
+	return { label: 'Combined', timeZone, hours, weekdays };
+}
+
+// Entries without a session id are left out rather than lumped into one long pseudo-session;
+// countSessionlessEntries reports how many there were.
+export function aggregateSessions(
+	entries: UsageEntry[],
+	window: DateWindow,
+	pricing: PricingContext,
+	shouldComputeCost: boolean,
+): SessionSummary[] {
+	const sessions = new Map<string, SessionSummary>();
+
+	for (const entry of entries) {
+		const sessionId = entry.sessionId;
+		if (sessionId == null || !windowContainsDate(window, entry.timestamp)) {
+			continue;
+		}
+
+		const mapKey = `${entry.source}:${sessionId}`;
+		let session = sessions.get(mapKey);
+		if (session == null) {
+			session = {
+				...makeEmptyUsageGroup(sessionId),
+				source: entry.source,
+				models: [],
+				start: entry.timestamp,
+				end: entry.timestamp,
+			};
+			sessions.set(mapKey, session);
+		}
+
+		const costUSD = shouldComputeCost ? resolveEntryCostUSD(pricing, entry) : null;
+		addEntryToGroup(session, entry, costUSD, shouldComputeCost);
+		if (entry.timestamp < session.start) {
+			session.start = entry.timestamp;
+		}
+		if (entry.timestamp > session.end) {
+			session.end = entry.timestamp;
+		}
+		if (!session.models.includes(entry.model)) {
+			session.models.push(entry.model);
+		}
+		if (session.project == null && entry.project != null) {
+			session.project = entry.project;
+		}
+	}
+
+	return [...sessions.values()];
+}
+
+export function countSessionlessEntries(entries: UsageEntry[], window: DateWindow): number {
+	return entries.filter((entry) => entry.sessionId == null && windowContainsDate(window, entry.timestamp)).length;
+}
+
+export function sortSessions(sessions: SessionSummary[], sort: SessionSortKind): SessionSummary[] {
+	const duration = (session: SessionSummary): number => session.end.getTime() - session.start.getTime();
+	return [...sessions].sort((left, right) => {
+		switch (sort) {
+			case 'cost':
+				return right.costUSD - left.costUSD || right.tokens - left.tokens;
+			case 'tokens':
+				return right.tokens - left.tokens || right.costUSD - left.costUSD;
+			case 'start':
+				return left.start.getTime() - right.start.getTime();
+			case 'duration':
+				return duration(right) - duration(left);
+		}
+	});
+}
+
+function projectBlock(block: BillingBlock, now: Date): BlockProjection {
+	const elapsedMs = Math.max(now.getTime() - block.start.getTime(), 60_000);
+	const remainingMs = Math.max(block.end.getTime() - now.getTime(), 0);
+	const costPerMs = block.costUSD / elapsedMs;
+	const tokensPerMs = block.tokens / elapsedMs;
+	return {
+		elapsedMs,
+		remainingMs,
+		costPerHourUSD: costPerMs * HOUR_MS,
+		tokensPerMinute: tokensPerMs * 60_000,
+		projectedCostUSD: block.costUSD + costPerMs * remainingMs,
+		projectedTokens: block.tokens + tokensPerMs * remainingMs,
+	};
+}
+
+// Claude subscription limits reset on rolling 5-hour windows. A window opens with the first
+// message after the previous one has expired, aligned to the top of that hour.
+export function aggregateBillingBlocks(
+	entries: UsageEntry[],
+	window: DateWindow,
+	pricing: PricingContext,
+	shouldComputeCost: boolean,
+	now = new Date(),
+): BillingBlock[] {
+	const sorted = [...entries].sort((left, right) => left.timestamp.getTime() - right.timestamp.getTime());
+	const blocks: BillingBlock[] = [];
+	let current: BillingBlock | null = null;
+
+	for (const entry of sorted) {
+		if (current == null || entry.timestamp >= current.end) {
+			const start = new Date(entry.timestamp.getTime() - (entry.timestamp.getTime() % HOUR_MS));
+			current = {
+				...makeEmptyUsageGroup(start.toISOString()),
+				start,
+				end: new Date(start.getTime() + BLOCK_DURATION_MS),
+				lastEntryAt: entry.timestamp,
+				models: [],
+				isActive: false,
+			};
+			blocks.push(current);
+		}
+
+		const costUSD = shouldComputeCost ? resolveEntryCostUSD(pricing, entry) : null;
+		addEntryToGroup(current, entry, costUSD, shouldComputeCost);
+		current.lastEntryAt = entry.timestamp;
+		if (!current.models.includes(entry.model)) {
+			current.models.push(entry.model);
+		}
+	}
+
+	const inWindow = blocks.filter((block) => windowContainsDate(window, block.start));
+	for (const block of inWindow) {
+		if (block.start <= now && now < block.end) {
+			block.isActive = true;
+			block.projection = projectBlock(block, now);
+		}
+	}
+	return inWindow;
+}
+
+function maxPercent(current: number | null, next: number | undefined): number | null {
+	if (next == null) {
+		return current;
+	}
+	return current == null ? next : Math.max(current, next);
+}
+
+export function aggregateRateLimits(snapshots: RateLimitSnapshot[], window: DateWindow): RateLimitReport {
+	const days: RateLimitDay[] = Array.from({ length: window.dayCount }, () => ({
+		snapshotCount: 0,
+		primaryPeakPercent: null,
+		secondaryPeakPercent: null,
+	}));
+
+	let latest: RateLimitSnapshot | null = null;
+	for (const snapshot of snapshots) {
+		if (!windowContainsDate(window, snapshot.timestamp)) {
+			continue;
+		}
+
+		const day = days[windowDayIndex(window, snapshot.timestamp)];
+		if (day == null) {
+			continue;
+		}
+		day.snapshotCount += 1;
+		day.primaryPeakPercent = maxPercent(day.primaryPeakPercent, snapshot.primary?.usedPercent);
+		day.secondaryPeakPercent = maxPercent(day.secondaryPeakPercent, snapshot.secondary?.usedPercent);
+		if (latest == null || snapshot.timestamp > latest.timestamp) {
+			latest = snapshot;
+		}
+	}
+
+	return { window, latest, days };
+}
+
+function budgetStatus(
+	scope: BudgetScope,
+	label: string,
+	limitUSD: number,
+	spentUSD: number,
+	warnAt: number[],
+): BudgetStatus {
+	const percent = (spentUSD / limitUSD) * 100;
+	const reached = warnAt.filter((threshold) => percent >= threshold);
+	const threshold = reached.length > 0 ? Math.max(...reached) : null;
+	let level: BudgetStatus['level'] = 'ok';
+	if (spentUSD > limitUSD) {
+		level = 'exceeded';
+	} else if (threshold != null) {
+		level = 'warning';
+	}
+	return { scope, label, limitUSD, spentUSD, percent, level, threshold };
+}
+
+// Budgets are monthly amounts, so they are only compared against single-month windows.
+export function evaluateBudgets(
+	budgets: Partial<Record<BudgetScope, number>>,
+	warnAt: number[],
+	summaries: SourceSummary[],
+	combined: RenderSummary,
+): BudgetStatus[] {
+	if (combined.window.month == null) {
+		return [];
+	}
+
+	const statuses: BudgetStatus[] = [];
+	for (const summary of summaries) {
+		const limitUSD = budgets[summary.source];
+		if (limitUSD != null) {
+			statuses.push(budgetStatus(summary.source, summary.label, limitUSD, summary.totalCostUSD, warnAt));
+		}
+	}
+	if (budgets.total != null) {
+		statuses.push(budgetStatus('total', 'All CLIs', budgets.total, combined.totalCostUSD, warnAt));
+	}
+	return statuses;
+}
+
+function mean(values: number[]): number {
+	return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Projects the month-end total (the rest of today plus the days after it) from the completed days
+// before today. Returns null outside the current month or when there are too few completed days to
+// say anything useful.
+export function forecastMonthEnd(
+	summary: RenderSummary,
+	metric: MetricKind,
+	now = new Date(),
+): MonthForecast | null {
+	const window = summary.window;
+	if (window.month == null || !windowContainsDate(window, now)) {
+		return null;
+	}
+
+	const todayIndex = windowDayIndex(window, now);
+	const values = summary.dayBuckets.map((bucket) => (metric === 'cost' ? bucket.costUSD : bucket.tokens));
+	const history = values.slice(0, todayIndex);
+	if (history.length < FORECAST_MIN_HISTORY_DAYS) {
+		return null;
+	}
+
+	const completed = history.reduce((sum, value) => sum + value, 0);
+	const today = values[todayIndex] ?? 0;
+	const actual = completed + today;
+	const dates = windowDayDates(window);
+	const remainingDates = dates.slice(todayIndex + 1);
+	const remainingDays = remainingDates.length;
+
+	// Today is still in progress: it ends at the projected daily rate unless it has already passed it.
+	const trailingRate = mean(history.slice(-FORECAST_TRAILING_DAYS));
+	const trailingAverage = completed + Math.max(today, trailingRate) + trailingRate * remainingDays;
+
+	const overallMean = mean(history);
+	const byWeekday = Array.from({ length: 7 }, () => [] as number[]);
+	history.forEach((value, index) => {
+		const day = dates[index]?.getDay();
+		if (day != null) {
+			byWeekday[day]?.push(value);
+		}
+	});
+	const weekdayRate = (date: Date | undefined): number => {
+		const samples = date == null ? [] : (byWeekday[date.getDay()] ?? []);
+		return samples.length > 0 ? mean(samples) : overallMean;
+	};
+	const weekdayAware = remainingDates.reduce(
+		(sum, date) => sum + weekdayRate(date),
+		completed + Math.max(today, weekdayRate(dates[todayIndex])),
+	);
+
+	// The unfinished rest of today counts as one more uncertain day.
+	const variance = mean(history.map((value) => (value - overallMean) ** 2));
+	const spread = FORECAST_Z * Math.sqrt(variance * (remainingDays + 1));
+	return {
+		metric,
+		elapsedDays: todayIndex + 1,
+		remainingDays,
+		actual,
+		trailingAverage,
+		weekdayAware,
+		low: Math.max(actual, Math.min(trailingAverage, weekdayAware) - spread),
+		high: Math.max(trailingAverage, weekdayAware) + spread,
 	};
 }
+
+export function aggregateModelPricing(
+	entries: UsageEntry[],
+	window: DateWindow,
+	pricing: PricingContext,
+): ModelPricingRow[] {
+	const rows = new Map<string, { row: Omit<ModelPricingRow, 'explanation'>; latest: UsageEntry }>();
+	for (const entry of entries) {
+		if (!windowContainsDate(window, entry.timestamp)) {
+			continue;
+		}
+
+		const key = [entry.source, entry.provider ?? '', entry.model].join('\u0000');
+		let item = rows.get(key);
+		if (item == null) {
+			item = {
+				row: {
+					source: entry.source,
+					model: entry.model,
+					entryCount: 0,
+					tokens: 0,
+					costUSD: 0,
+					loggedCostEntries: 0,
+				},
+				latest: entry,
+			};
+			rows.set(key, item);
+		}
+		item.row.entryCount += 1;
+		item.row.tokens += totalTokens(entry);
+		item.row.costUSD += resolveEntryCostUSD(pricing, entry) ?? 0;
+		if (entry.costUSD != null && Number.isFinite(entry.costUSD)) {
+			item.row.loggedCostEntries += 1;
+		}
+		if (entry.timestamp > item.latest.timestamp) {
+			item.latest = entry;
+		}
+	}
+
+	return [...rows.values()]
+		.map(({ row, latest }) => ({ ...row, explanation: explainEntryPricing(pricing, latest) }))
+		.sort((left, right) => left.source.localeCompare(right.source) || right.tokens - left.tokens);
+}
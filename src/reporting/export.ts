@@ -0,0 +1,334 @@
+import type { PricingContext, PricingSource } from '../pricing.js';
+import type {
+	BillingBlock,
+	BudgetStatus,
+	CacheUsage,
+	CostBreakdown,
+	DateWindow,
+	DayBucket,
+	GroupKind,
+	MetricKind,
+	ModelPricingRow,
+	MonthForecast,
+	RateLimitDay,
+	RateLimitReport,
+	RateLimitSnapshot,
+	SessionSummary,
+	SourceDetection,
+	SourceKind,
+	SourceSummary,
+	SourceTrend,
+	UsageEntry,
+	UsageGroup,
+} from '../types.js';
+import type { RenderSummary } from './types.js';
+import { cacheHitRatio, forecastMonthEnd, resolveEntryCostBreakdown } from './aggregate.js';
+import { formatDateKey, windowContainsDate, windowDayDates } from '../utils.js';
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+// Bump when a field is removed or changes meaning; adding fields keeps the version.
+export const JSON_REPORT_VERSION = 2;
+
+export type JsonDayBucket = DayBucket & {
+	date: string;
+};
+
+export type JsonRateLimitDay = RateLimitDay & {
+	date: string;
+};
+
+export type JsonWindow = {
+	timeZone: string;
+	since: string;
+	until: string;
+	dayCount: number;
+	month: string | null;
+};
+
+export type JsonSummary = {
+	source?: SourceKind;
+	label: string;
+	totalCostUSD: number;
+	totalTokens: number;
+	totalEntries: number;
+	unknownCostEntries: number;
+	dayBuckets: JsonDayBucket[];
+	models: UsageGroup[];
+	projects: UsageGroup[];
+	// Month-end projection; null unless the window is the current month.
+	forecast: MonthForecast | null;
+	// null when the metric is tokens.
+	costBreakdown: CostBreakdown | null;
+	cache: CacheUsage & {
+		hitRatio: number | null;
+	};
+	webSearchRequests: number;
+};
+
+export type JsonPricing = {
+	source: PricingSource;
+	isEmpty: boolean;
+	// Dates of the dated pricing snapshots used, oldest first.
+	snapshots: string[];
+	pinnedDate: string | null;
+};
+
+export type JsonReport = {
+	version: typeof JSON_REPORT_VERSION;
+	generatedAt: string;
+	window: JsonWindow;
+	metric: MetricKind;
+	groupBy: GroupKind;
+	projectFilter: string[];
+	pricing: JsonPricing | null;
+	detections: SourceDetection[];
+	sources: JsonSummary[];
+	combined: JsonSummary;
+	trend: {
+		sources: SourceTrend[];
+		combined: SourceTrend;
+	} | null;
+	sessions: SessionSummary[] | null;
+	blocks: BillingBlock[] | null;
+	rateLimits: {
+		latest: RateLimitSnapshot | null;
+		days: JsonRateLimitDay[];
+	} | null;
+	budgets: BudgetStatus[] | null;
+	unknownCostEntries: {
+		total: number;
+		bySource: Partial<Record<SourceKind, number>>;
+	};
+};
+
+export type JsonReportInput = {
+	window: DateWindow;
+	metric: MetricKind;
+	groupBy: GroupKind;
+	projectFilter: string[];
+	pricing: JsonPricing | null;
+	detections: SourceDetection[];
+	summaries: SourceSummary[];
+	combined: RenderSummary;
+	trend?: {
+		sources: SourceTrend[];
+		combined: SourceTrend;
+	};
+	sessions?: SessionSummary[];
+	blocks?: BillingBlock[];
+	rateLimits?: RateLimitReport;
+	budgets?: BudgetStatus[];
+};
+
+function dayBucketDates(window: DateWindow): string[] {
+	return windowDayDates(window).map(formatDateKey);
+}
+
+function toJsonWindow(window: DateWindow): JsonWindow {
+	return {
+		timeZone: window.timeZone,
+		since: window.since,
+		until: window.until,
+		dayCount: window.dayCount,
+		month: window.month ?? null,
+	};
+}
+
+function toJsonRateLimits(report: RateLimitReport): NonNullable<JsonReport['rateLimits']> {
+	const dates = dayBucketDates(report.window);
+	return {
+		latest: report.latest,
+		days: report.days.map((day, index) => ({ date: dates[index] ?? '', ...day })),
+	};
+}
+
+function toJsonSummary(summary: RenderSummary, metric: MetricKind): JsonSummary {
+	const dates = dayBucketDates(summary.window);
+	return {
+		...(summary.source != null ? { source: summary.source } : {}),
+		label: summary.label,
+		totalCostUSD: summary.totalCostUSD,
+		totalTokens: summary.totalTokens,
+		totalEntries: summary.totalEntries,
+		unknownCostEntries: summary.unknownCostEntries,
+		dayBuckets: summary.dayBuckets.map((bucket, index) => ({
+			date: dates[index] ?? '',
+			...bucket,
+		})),
+		models: summary.models,
+		projects: summary.projects,
+		forecast: forecastMonthEnd(summary, metric),
+		costBreakdown: metric === 'cost' ? summary.costBreakdown : null,
+		cache: { ...summary.cache, hitRatio: cacheHitRatio(summary.cache) },
+		webSearchRequests: summary.webSearchRequests,
+	};
+}
+
+export function buildJsonReport(input: JsonReportInput): JsonReport {
+	const bySource: Partial<Record<SourceKind, number>> = {};
+	for (const summary of input.summaries) {
+		bySource[summary.source] = summary.unknownCostEntries;
+	}
+
+	return {
+		version: JSON_REPORT_VERSION,
+		generatedAt: new Date().toISOString(),
+		window: toJsonWindow(input.window),
+		metric: input.metric,
+		groupBy: input.groupBy,
+		projectFilter: input.projectFilter,
+		pricing: input.pricing,
+		detections: input.detections,
+		sources: input.summaries.map((summary) => toJsonSummary(summary, input.metric)),
+		combined: toJsonSummary(input.combined, input.metric),
+		trend: input.trend ?? null,
+		sessions: input.sessions ?? null,
+		blocks: input.blocks ?? null,
+		rateLimits: input.rateLimits != null ? toJsonRateLimits(input.rateLimits) : null,
+		budgets: input.budgets ?? null,
+		unknownCostEntries: {
+			total: input.combined.unknownCostEntries,
+			bySource,
+		},
+	};
+}
+
+export type JsonPricingExplainReport = {
+	version: typeof JSON_REPORT_VERSION;
+	generatedAt: string;
+	window: JsonWindow;
+	strict: boolean;
+	models: ModelPricingRow[];
+};
+
+export function buildPricingExplainReport(
+	window: DateWindow,
+	strict: boolean,
+	rows: ModelPricingRow[],
+): JsonPricingExplainReport {
+	return {
+		version: JSON_REPORT_VERSION,
+		generatedAt: new Date().toISOString(),
+		window: toJsonWindow(window),
+		strict,
+		models: rows,
+	};
+}
+
+export function renderJsonReport(report: JsonReport | JsonPricingExplainReport): string {
+	return JSON.stringify(report, null, 2);
+}
+
+function escapeDelimitedCell(value: string, format: DelimitedFormat): string {
+	if (format === 'tsv') {
+		return value.replace(/[\t\r\n]+/g, ' ');
+	}
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function renderDelimitedRows(header: string[], rows: string[][], format: DelimitedFormat): string {
+	const separator = format === 'csv' ? ',' : '\t';
+	return [header, ...rows]
+		.map((row) => row.map((cell) => escapeDelimitedCell(cell, format)).join(separator))
+		.join('\n');
+}
+
+// Micro-dollar precision; the split columns are products of per-token rates and carry float noise.
+const COST_CELL_DECIMALS = 6;
+
+function formatCostCell(value: number | null): string {
+	if (value == null) {
+		return '';
+	}
+	const scale = 10 ** COST_CELL_DECIMALS;
+	return String(Math.round(value * scale) / scale);
+}
+
+export function renderDelimitedDays(summaries: SourceSummary[], format: DelimitedFormat): string {
+	const header = ['date', 'source', 'entries', 'tokens', 'cost_usd', 'unknown_cost_entries'];
+	const rows: string[][] = [];
+	for (const summary of summaries) {
+		const dates = dayBucketDates(summary.window);
+		summary.dayBuckets.forEach((bucket, index) => {
+			rows.push([
+				dates[index] ?? '',
+				summary.source,
+				String(bucket.entryCount),
+				String(bucket.tokens),
+				String(bucket.costUSD),
+				String(bucket.unknownCostEntries),
+			]);
+		});
+	}
+	return renderDelimitedRows(header, rows, format);
+}
+
+export function renderDelimitedEntries(
+	entries: UsageEntry[],
+	window: DateWindow,
+	pricing: PricingContext,
+	shouldComputeCost: boolean,
+	format: DelimitedFormat,
+): string {
+	const header = [
+		'timestamp',
+		'source',
+		'project',
+		'model',
+		'input_tokens',
+		'output_tokens',
+		'cache_read_tokens',
+		'cache_write_tokens',
+		'cache_write_1h_tokens',
+		'reasoning_output_tokens',
+		'cost_usd',
+		'cost_origin',
+		'input_cost_usd',
+		'output_cost_usd',
+		'reasoning_cost_usd',
+		'cache_write_cost_usd',
+		'cache_read_cost_usd',
+		'web_search_requests',
+		'web_search_cost_usd',
+	];
+	const rows = entries
+		.filter((entry) => windowContainsDate(window, entry.timestamp))
+		.sort((left, right) => left.timestamp.getTime() - right.timestamp.getTime())
+		.map((entry) => {
+			const breakdown = shouldComputeCost ? resolveEntryCostBreakdown(pricing, entry) : null;
+			const costUSD = breakdown?.totalUSD ?? null;
+			// A logged cost for a model without rates cannot be split.
+			const split = breakdown != null && breakdown.unattributedUSD === 0 ? breakdown : null;
+			let costOrigin = 'skipped';
+			if (shouldComputeCost) {
+				if (entry.costUSD != null && Number.isFinite(entry.costUSD)) {
+					costOrigin = 'logged';
+				} else {
+					costOrigin = costUSD == null ? 'unknown' : 'estimated';
+				}
+			}
+			return [
+				entry.timestamp.toISOString(),
+				entry.source,
+				entry.project ?? '',
+				entry.model,
+				String(entry.inputTokens),
+				String(entry.outputTokens),
+				String(entry.cacheReadTokens),
+				String(entry.cacheWriteTokens),
+				String(entry.cacheWrite1hTokens),
+				String(entry.reasoningOutputTokens),
+				formatCostCell(costUSD),
+				costOrigin,
+				formatCostCell(split?.inputUSD ?? null),
+				formatCostCell(split?.outputUSD ?? null),
+				formatCostCell(split?.reasoningOutputUSD ?? null),
+				formatCostCell(split?.cacheWriteUSD ?? null),
+				formatCostCell(split?.cacheReadUSD ?? null),
+				String(entry.webSearchRequests),
+				formatCostCell(split?.webSearchUSD ?? null),
+			];
+		});
+	return renderDelimitedRows(header, rows, format);
+}
@@ -1,39 +1,67 @@
-import type { MetricKind, SourceKind } from '../types.js';
+import type { PricingRecord } from '../pricing.js';
+import type { SourceStyle } from '../sources.js';
+import type {
+	BillingBlock,
+	BudgetStatus,
+	DateWindow,
+	DayBucket,
+	MetricKind,
+	ModelPricingRow,
+	MonthForecast,
+	RateLimitReport,
+	RateLimitWindow,
+	SessionSummary,
+	SourceKind,
+	SourceTrend,
+	UsageGroup,
+	UsageProfile,
+} from '../types.js';
 import type { RenderSummary } from './types.js';
+import { cacheHitRatio, FORECAST_TRAILING_DAYS, sortUsageGroups } from './aggregate.js';
+import { webSearchCostPerRequest } from '../pricing.js';
+import { getSourceAdapter } from '../sources.js';
 import {
 	bold,
 	color,
+	formatCompactNumber,
 	formatCurrency,
+	formatDateTime,
+	formatDuration,
+	formatMonthShort,
 	formatNumber,
+	formatShortDate,
+	pad2,
+	tildifyPath,
+	windowDayDates,
 } from '../utils.js';
 
-const SOURCE_STYLES: Record<
-	SourceKind,
-	{
-		title: string;
-		fill: string;
-		empty: string;
-	}
-> = {
-	claude: {
-		title: '38;5;208', // orange
-		fill: '38;5;208',
-		empty: '90',
-	},
-	codex: {
-		title: '97', // white (black & white style)
-		fill: '97',
-		empty: '90',
-	},
-};
-
-const COMBINED_STYLE = {
+const COMBINED_STYLE: SourceStyle = {
 	title: '36',
 	fill: '36',
 	empty: '90',
 };
 
+function sourceStyle(source: SourceKind | undefined): SourceStyle {
+	return source != null ? getSourceAdapter(source).style : COMBINED_STYLE;
+}
+
 const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'] as const;
+const HEATMAP_CHARS = ['·', '░', '▒', '▓', '█'] as const;
+const HEATMAP_ASCII_CHARS = ['.', '-', '+', '*', '#'] as const;
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'] as const;
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+const MAX_KEY_WIDTH = 36;
+
+type TableAlign = 'left' | 'right';
+
+type GroupTableOptions = {
+	keyHeader: string;
+	// Paths keep their most specific (trailing) segments when truncated.
+	keyIsPath?: boolean;
+	fillCode: string;
+	emptyCode: string;
+	barWidth?: number;
+};
 
 function totalByMetric(summary: RenderSummary, metric: MetricKind): number {
 	return metric === 'cost' ? summary.totalCostUSD : summary.totalTokens;
@@ -66,17 +94,943 @@ function renderSparkline(values: number[]): string {
 		.join('');
 }
 
+function downsampleDays(values: number[], maxWidth: number): { values: number[]; daysPerChar: number } {
+	if (values.length <= maxWidth) {
+		return { values, daysPerChar: 1 };
+	}
+
+	const daysPerChar = Math.ceil(values.length / maxWidth);
+	const sampled: number[] = [];
+	for (let index = 0; index < values.length; index += daysPerChar) {
+		sampled.push(values.slice(index, index + daysPerChar).reduce((sum, value) => sum + value, 0));
+	}
+	return { values: sampled, daysPerChar };
+}
+
+function renderTrendAxis(window: DateWindow, width: number): string {
+	const dates = windowDayDates(window);
+	const startLabel = dates[0] == null ? '' : formatShortDate(dates[0]);
+	const endLabel = dates[dates.length - 1] == null ? '' : formatShortDate(dates[dates.length - 1]!);
+	if (window.dayCount === 1 || width < startLabel.length + endLabel.length + 1) {
+		return startLabel;
+	}
+	return `${startLabel}${' '.repeat(width - startLabel.length - endLabel.length)}${endLabel}`;
+}
+
+function visibleWidth(text: string): number {
+	return text.replace(ANSI_PATTERN, '').length;
+}
+
+function padCell(text: string, width: number, align: TableAlign): string {
+	const padding = ' '.repeat(Math.max(0, width - visibleWidth(text)));
+	return align === 'right' ? padding + text : text + padding;
+}
+
+function truncateKey(key: string, keepEnd = false): string {
+	if (key.length <= MAX_KEY_WIDTH) {
+		return key;
+	}
+	return keepEnd ? `…${key.slice(key.length - MAX_KEY_WIDTH + 1)}` : `${key.slice(0, MAX_KEY_WIDTH - 1)}…`;
+}
+
+function formatShare(value: number, total: number): string {
+	if (total <= 0) {
+		return '0.0%';
+	}
+	return `${((value / total) * 100).toFixed(1)}%`;
+}
+
+function renderTable(
+	headers: string[],
+	aligns: TableAlign[],
+	rows: string[][],
+	colorsEnabled: boolean,
+): string[] {
+	const widths = headers.map((header, column) =>
+		Math.max(visibleWidth(header), ...rows.map((row) => visibleWidth(row[column] ?? ''))),
+	);
+	const renderRow = (cells: string[]): string =>
+		`  ${cells
+			.map((cell, column) => padCell(cell, widths[column] ?? 0, aligns[column] ?? 'left'))
+			.join('  ')}`.trimEnd();
+
+	return [color(renderRow(headers), '90', colorsEnabled), ...rows.map(renderRow)];
+}
+
+export function renderUsageGroupTable(
+	groups: UsageGroup[],
+	metric: MetricKind,
+	colorsEnabled: boolean,
+	options: GroupTableOptions,
+): string[] {
+	const sorted = sortUsageGroups(groups, metric);
+	const valueOf = (group: UsageGroup): number => (metric === 'cost' ? group.costUSD : group.tokens);
+	const total = sorted.reduce((sum, group) => sum + valueOf(group), 0);
+	const topValue = Math.max(0, ...sorted.map(valueOf));
+
+	const headers = [options.keyHeader, 'Entries', 'Input', 'Output', 'Cache R', 'Cache W', 'Reasoning'];
+	const aligns: TableAlign[] = ['left', 'right', 'right', 'right', 'right', 'right', 'right'];
+	if (metric === 'cost') {
+		headers.push('Cost');
+		aligns.push('right');
+	}
+	headers.push('Share');
+	aligns.push('right');
+	if (options.barWidth != null) {
+		headers.push('');
+		aligns.push('left');
+	}
+
+	const rows = sorted.map((group) => {
+		const row = [
+			options.keyIsPath === true
+				? truncateKey(tildifyPath(group.key), true)
+				: truncateKey(group.key),
+			formatNumber(group.entryCount),
+			formatCompactNumber(group.inputTokens),
+			formatCompactNumber(group.outputTokens),
+			formatCompactNumber(group.cacheReadTokens),
+			formatCompactNumber(group.cacheWriteTokens),
+			formatCompactNumber(group.reasoningOutputTokens),
+		];
+		if (metric === 'cost') {
+			row.push(formatCurrency(group.costUSD));
+		}
+		row.push(formatShare(valueOf(group), total));
+		if (options.barWidth != null) {
+			const percent = topValue === 0 ? 0 : (valueOf(group) / topValue) * 100;
+			row.push(
+				renderProgressBar(options.barWidth, percent, options.fillCode, options.emptyCode, colorsEnabled),
+			);
+		}
+		return row;
+	});
+
+	return renderTable(headers, aligns, rows, colorsEnabled);
+}
+
+export function renderGroupChart(
+	title: string,
+	groups: UsageGroup[],
+	metric: MetricKind,
+	colorsEnabled: boolean,
+	keyHeader: string,
+	keyIsPath = false,
+): string {
+	const lines = [bold(color(title, COMBINED_STYLE.title, colorsEnabled), colorsEnabled)];
+	if (groups.length === 0) {
+		lines.push(`  No usage entries.`);
+		return lines.join('\n');
+	}
+
+	lines.push(
+		...renderUsageGroupTable(groups, metric, colorsEnabled, {
+			keyHeader,
+			keyIsPath,
+			fillCode: COMBINED_STYLE.fill,
+			emptyCode: COMBINED_STYLE.empty,
+			barWidth: 16,
+		}),
+	);
+	return lines.join('\n');
+}
+
+function formatChange(current: number, previous: number | undefined, colorsEnabled: boolean): string {
+	if (previous == null) {
+		return '';
+	}
+	if (previous <= 0) {
+		return current > 0 ? color('new', '33', colorsEnabled) : '—';
+	}
+	const change = ((current - previous) / previous) * 100;
+	const text = `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+	if (Math.abs(change) < 0.05) {
+		return text;
+	}
+	return color(text, change > 0 ? '33' : '32', colorsEnabled);
+}
+
+export function renderTrendChart(trend: SourceTrend, metric: MetricKind, colorsEnabled: boolean): string {
+	const style = sourceStyle(trend.source);
+	const valueOf = (index: number): number | undefined => {
+		const totals = trend.months[index];
+		if (totals == null) {
+			return undefined;
+		}
+		return metric === 'cost' ? totals.costUSD : totals.tokens;
+	};
+	const topValue = Math.max(0, ...trend.months.map((_, index) => valueOf(index) ?? 0));
+
+	const headers = ['Month'];
+	const aligns: TableAlign[] = ['left'];
+	if (metric === 'cost') {
+		headers.push('Cost');
+		aligns.push('right');
+	}
+	headers.push('Tokens', 'Entries', 'Change', '');
+	aligns.push('right', 'right', 'right', 'left');
+
+	const rows = trend.months.map((totals, index) => {
+		const value = valueOf(index) ?? 0;
+		const row = [formatMonthShort(totals.month)];
+		if (metric === 'cost') {
+			row.push(formatCurrency(totals.costUSD));
+		}
+		row.push(
+			formatCompactNumber(totals.tokens),
+			formatNumber(totals.entryCount),
+			formatChange(value, valueOf(index - 1), colorsEnabled),
+			renderProgressBar(24, topValue === 0 ? 0 : (value / topValue) * 100, style.fill, style.empty, colorsEnabled),
+		);
+		return row;
+	});
+
+	const lines = [bold(color(trend.label, style.title, colorsEnabled), colorsEnabled)];
+	lines.push(...renderTable(headers, aligns, rows, colorsEnabled));
+
+	const unknownCostEntries = trend.months.reduce((sum, totals) => sum + totals.unknownCostEntries, 0);
+	if (metric === 'cost' && unknownCostEntries > 0) {
+		lines.push(
+			`  ${color(
+				`Unknown pricing: ${formatNumber(unknownCostEntries)} entries counted as $0.00.`,
+				'33',
+				colorsEnabled,
+			)}`,
+		);
+	}
+	return lines.join('\n');
+}
+
+function formatWeekday(date: Date): string {
+	return date.toLocaleString('en-US', { weekday: 'short' });
+}
+
+export function renderDailyTable(summary: RenderSummary, metric: MetricKind, colorsEnabled: boolean): string {
+	const style = sourceStyle(summary.source);
+	const dates = windowDayDates(summary.window);
+	const valueOf = (bucket: DayBucket): number => (metric === 'cost' ? bucket.costUSD : bucket.tokens);
+	const topValue = Math.max(0, ...summary.dayBuckets.map(valueOf));
+	const multiYear = dates[0]?.getFullYear() !== dates[dates.length - 1]?.getFullYear();
+
+	const headers = ['Date', 'Day'];
+	const aligns: TableAlign[] = ['left', 'left'];
+	if (metric === 'cost') {
+		headers.push('Cost');
+		aligns.push('right');
+	}
+	headers.push('Tokens', 'Entries', '');
+	aligns.push('right', 'right', 'left');
+
+	const metricCells = (costUSD: number, tokens: number, entryCount: number): string[] => [
+		...(metric === 'cost' ? [formatCurrency(costUSD)] : []),
+		formatCompactNumber(tokens),
+		formatNumber(entryCount),
+	];
+
+	const rows: string[][] = [];
+	let week = { costUSD: 0, tokens: 0, entryCount: 0, days: 0 };
+	summary.dayBuckets.forEach((bucket, index) => {
+		const date = dates[index];
+		if (date == null) {
+			return;
+		}
+
+		const value = valueOf(bucket);
+		const percent = topValue === 0 ? 0 : (value / topValue) * 100;
+		rows.push([
+			formatShortDate(date, multiYear),
+			formatWeekday(date),
+			...metricCells(bucket.costUSD, bucket.tokens, bucket.entryCount),
+			bucket.entryCount === 0 ? '' : renderProgressBar(24, percent, style.fill, style.empty, colorsEnabled),
+		]);
+
+		week.costUSD += bucket.costUSD;
+		week.tokens += bucket.tokens;
+		week.entryCount += bucket.entryCount;
+		week.days += 1;
+		const isWeekEnd = date.getDay() === 0 || index === summary.dayBuckets.length - 1;
+		// Skip the subtotal when the whole window fits in one week; the totals below already cover it.
+		if (isWeekEnd && week.days < summary.dayBuckets.length) {
+			rows.push(
+				[
+					'  Week',
+					'',
+					...metricCells(week.costUSD, week.tokens, week.entryCount),
+					'',
+				].map((cell) => (cell === '' ? cell : color(cell, '90', colorsEnabled))),
+			);
+			week = { costUSD: 0, tokens: 0, entryCount: 0, days: 0 };
+		}
+	});
+
+	const lines = [bold(color(summary.label, style.title, colorsEnabled), colorsEnabled)];
+	lines.push(...renderTable(headers, aligns, rows, colorsEnabled));
+	const totalParts = [
+		...(metric === 'cost' ? [formatCurrency(summary.totalCostUSD)] : []),
+		`${formatNumber(summary.totalTokens)} tokens`,
+		`${formatNumber(summary.totalEntries)} entries`,
+	];
+	lines.push(`  Total: ${totalParts.join(', ')}`);
+	return lines.join('\n');
+}
+
+function heatmapLevel(value: number, maxValue: number): number {
+	if (value <= 0 || maxValue <= 0) {
+		return 0;
+	}
+	return Math.max(1, Math.min(4, Math.ceil((value / maxValue) * 4)));
+}
+
+function heatmapCell(
+	level: number,
+	style: { fill: string; empty: string },
+	colorsEnabled: boolean,
+): string {
+	if (!colorsEnabled) {
+		return HEATMAP_ASCII_CHARS[level] ?? HEATMAP_ASCII_CHARS[0];
+	}
+	const char = HEATMAP_CHARS[level] ?? HEATMAP_CHARS[0];
+	return color(char, level === 0 ? style.empty : style.fill, colorsEnabled);
+}
+
+export function renderHeatmap(summary: RenderSummary, metric: MetricKind, colorsEnabled: boolean): string {
+	const style = sourceStyle(summary.source);
+	const dates = windowDayDates(summary.window);
+	const values = summary.dayBuckets.map((bucket) => (metric === 'cost' ? bucket.costUSD : bucket.tokens));
+	const maxValue = Math.max(0, ...values);
+	// Weeks start on Monday, matching the daily view and this-week/last-week ranges.
+	const leadingDays = ((dates[0]?.getDay() ?? 1) + 6) % 7;
+	const weekCount = Math.ceil((leadingDays + dates.length) / 7);
+	const terminalWidth = Math.max(80, process.stdout.columns ?? 100);
+	const cellWidth = weekCount * 2 + 6 <= terminalWidth ? 2 : 1;
+
+	const grid = Array.from({ length: 7 }, () => Array.from({ length: weekCount }, () => ' '));
+	const monthLabels = Array.from({ length: weekCount * cellWidth }, () => ' ');
+	dates.forEach((date, index) => {
+		const position = leadingDays + index;
+		const week = Math.floor(position / 7);
+		const row = grid[position % 7];
+		if (row != null) {
+			row[week] = heatmapCell(heatmapLevel(values[index] ?? 0, maxValue), style, colorsEnabled);
+		}
+		if (date.getDate() === 1 || index === 0) {
+			const label = date.toLocaleString('en-US', { month: 'short' });
+			const column = week * cellWidth;
+			const fits =
+				(column === 0 || monthLabels[column - 1] === ' ') &&
+				[...label].every((_, offset) => monthLabels[column + offset] === ' ');
+			if (fits) {
+				[...label].forEach((char, offset) => {
+					monthLabels[column + offset] = char;
+				});
+			}
+		}
+	});
+
+	const lines = [bold(color(summary.label, style.title, colorsEnabled), colorsEnabled)];
+	lines.push(`      ${color(monthLabels.join('').trimEnd(), '90', colorsEnabled)}`);
+	grid.forEach((row, index) => {
+		const label = (WEEKDAY_LABELS[index] ?? '').padEnd(4, ' ');
+		const cells = row.map((cell) => cell + ' '.repeat(cellWidth - 1)).join('');
+		lines.push(`  ${color(label, '90', colorsEnabled)}${cells}`.trimEnd());
+	});
+
+	const legend = [0, 1, 2, 3, 4].map((level) => heatmapCell(level, style, colorsEnabled)).join(' ');
+	const peak = metric === 'cost' ? formatCurrency(maxValue) : `${formatNumber(maxValue)} tokens`;
+	lines.push(`      ${color('Less', '90', colorsEnabled)} ${legend} ${color('More', '90', colorsEnabled)}   Peak day: ${peak}`);
+	return lines.join('\n');
+}
+
+const PROFILE_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+const DAYTIME_START_HOUR = 8;
+const DAYTIME_END_HOUR = 20;
+
+function renderProfileRows(
+	labels: string[],
+	buckets: DayBucket[],
+	metric: MetricKind,
+	style: { fill: string; empty: string },
+	colorsEnabled: boolean,
+): string[] {
+	const valueOf = (bucket: DayBucket): number => (metric === 'cost' ? bucket.costUSD : bucket.tokens);
+	const total = buckets.reduce((sum, bucket) => sum + valueOf(bucket), 0);
+	const topValue = Math.max(0, ...buckets.map(valueOf));
+	const rows = buckets.map((bucket, index) => {
+		const percent = topValue === 0 ? 0 : (valueOf(bucket) / topValue) * 100;
+		return [
+			labels[index] ?? '',
+			metric === 'cost' ? formatCurrency(bucket.costUSD) : formatCompactNumber(bucket.tokens),
+			formatShare(valueOf(bucket), total),
+			renderProgressBar(24, percent, style.fill, style.empty, colorsEnabled),
+		];
+	});
+	return renderTable(
+		['', metric === 'cost' ? 'Cost' : 'Tokens', 'Share', ''],
+		['left', 'right', 'right', 'left'],
+		rows,
+		colorsEnabled,
+	);
+}
+
+export function renderUsageProfile(profile: UsageProfile, metric: MetricKind, colorsEnabled: boolean): string {
+	const style = sourceStyle(profile.source);
+	const valueOf = (bucket: DayBucket): number => (metric === 'cost' ? bucket.costUSD : bucket.tokens);
+	const total = profile.hours.reduce((sum, bucket) => sum + valueOf(bucket), 0);
+	const lines = [
+		`${bold(color(profile.label, style.title, colorsEnabled), colorsEnabled)}  ${color(profile.timeZone, '90', colorsEnabled)}`,
+	];
+	if (total === 0) {
+		lines.push('  No usage entries.');
+		return lines.join('\n');
+	}
+
+	const daytime = profile.hours
+		.slice(DAYTIME_START_HOUR, DAYTIME_END_HOUR)
+		.reduce((sum, bucket) => sum + valueOf(bucket), 0);
+	const peakHour = profile.hours.reduce(
+		(best, bucket, hour) => (valueOf(bucket) > valueOf(profile.hours[best] ?? bucket) ? hour : best),
+		0,
+	);
+	lines.push(
+		`  Daytime (${pad2(DAYTIME_START_HOUR)}:00–${pad2(DAYTIME_END_HOUR)}:00): ${formatShare(daytime, total)}` +
+			`  Overnight: ${formatShare(total - daytime, total)}` +
+			`  Peak hour: ${pad2(peakHour)}:00`,
+	);
+
+	lines.push('');
+	lines.push(
+		...renderProfileRows(
+			profile.hours.map((_, hour) => `${pad2(hour)}:00`),
+			profile.hours,
+			metric,
+			style,
+			colorsEnabled,
+		),
+	);
+	lines.push('');
+	lines.push(...renderProfileRows([...PROFILE_WEEKDAYS], profile.weekdays, metric, style, colorsEnabled));
+	return lines.join('\n');
+}
+
+function sessionlessNote(sessionlessEntries: number, colorsEnabled: boolean): string[] {
+	if (sessionlessEntries === 0) {
+		return [];
+	}
+	return [
+		color(
+			`  ${formatNumber(sessionlessEntries)} entries without a session id are not listed.`,
+			'90',
+			colorsEnabled,
+		),
+	];
+}
+
+export function renderSessionTable(
+	sessions: SessionSummary[],
+	totalSessions: number,
+	sessionlessEntries: number,
+	metric: MetricKind,
+	colorsEnabled: boolean,
+	timeZone: string,
+): string {
+	const lines = [
+		`${bold(color('Sessions', COMBINED_STYLE.title, colorsEnabled), colorsEnabled)}  ${color(timeZone, '90', colorsEnabled)}`,
+	];
+	if (sessions.length === 0) {
+		lines.push('  No sessions in this range.');
+		lines.push(...sessionlessNote(sessionlessEntries, colorsEnabled));
+		return lines.join('\n');
+	}
+
+	const headers = ['Start', 'Duration', 'Source', 'Project', 'Models', 'Entries', 'Tokens'];
+	const aligns: TableAlign[] = ['left', 'right', 'left', 'left', 'left', 'right', 'right'];
+	if (metric === 'cost') {
+		headers.push('Cost');
+		aligns.push('right');
+	}
+	headers.push('Session');
+	aligns.push('left');
+
+	const rows = sessions.map((session) => {
+		const style = sourceStyle(session.source);
+		const row = [
+			formatDateTime(session.start, timeZone),
+			formatDuration(session.end.getTime() - session.start.getTime()),
+			color(session.source, style.title, colorsEnabled),
+			session.project == null ? '' : truncateKey(tildifyPath(session.project), true),
+			truncateKey(session.models.join(', ')),
+			formatNumber(session.entryCount),
+			formatCompactNumber(session.tokens),
+		];
+		if (metric === 'cost') {
+			row.push(formatCurrency(session.costUSD));
+		}
+		row.push(session.key);
+		return row;
+	});
+	lines.push(...renderTable(headers, aligns, rows, colorsEnabled));
+
+	if (totalSessions > sessions.length) {
+		lines.push(
+			color(
+				`  ${formatNumber(totalSessions - sessions.length)} more sessions not shown (use --top to change).`,
+				'90',
+				colorsEnabled,
+			),
+		);
+	}
+	lines.push(...sessionlessNote(sessionlessEntries, colorsEnabled));
+	return lines.join('\n');
+}
+
+function renderActiveBlock(
+	block: BillingBlock,
+	metric: MetricKind,
+	colorsEnabled: boolean,
+	timeZone: string,
+): string[] {
+	const projection = block.projection;
+	if (projection == null) {
+		return [];
+	}
+
+	const style = sourceStyle('claude');
+	const blockMs = block.end.getTime() - block.start.getTime();
+	const percent = (projection.elapsedMs / blockMs) * 100;
+	const lines = [bold(color('Active block', style.title, colorsEnabled), colorsEnabled)];
+	lines.push(
+		`  ${renderProgressBar(40, percent, style.fill, style.empty, colorsEnabled)} ` +
+			`${formatDuration(projection.elapsedMs)} elapsed, ${formatDuration(projection.remainingMs)} left ` +
+			`(resets ${formatDateTime(block.end, timeZone)})`,
+	);
+	const burn = [`${formatCompactNumber(projection.tokensPerMinute)} tokens/min`];
+	const projected = [`${formatCompactNumber(projection.projectedTokens)} tokens`];
+	if (metric === 'cost') {
+		burn.unshift(`${formatCurrency(projection.costPerHourUSD)}/h`);
+		projected.unshift(formatCurrency(projection.projectedCostUSD));
+	}
+	lines.push(`  Burn rate: ${burn.join(', ')}`);
+	lines.push(`  Projected at block end: ${bold(projected.join(', '), colorsEnabled)}`);
+	return lines;
+}
+
+export function renderBillingBlocks(
+	blocks: BillingBlock[],
+	totalBlocks: number,
+	metric: MetricKind,
+	colorsEnabled: boolean,
+	timeZone: string,
+): string {
+	const style = sourceStyle('claude');
+	const lines = [
+		`${bold(color('Claude 5-hour blocks', style.title, colorsEnabled), colorsEnabled)}  ${color(timeZone, '90', colorsEnabled)}`,
+	];
+	if (blocks.length === 0) {
+		lines.push('  No Claude usage in this range.');
+		return lines.join('\n');
+	}
+
+	const headers = ['Start', 'End', 'Entries', 'Tokens'];
+	const aligns: TableAlign[] = ['left', 'left', 'right', 'right'];
+	if (metric === 'cost') {
+		headers.push('Cost');
+		aligns.push('right');
+	}
+	headers.push('Models', '');
+	aligns.push('left', 'left');
+
+	const rows = blocks.map((block) => {
+		const row = [
+			formatDateTime(block.start, timeZone),
+			formatDateTime(block.end, timeZone),
+			formatNumber(block.entryCount),
+			formatCompactNumber(block.tokens),
+		];
+		if (metric === 'cost') {
+			row.push(formatCurrency(block.costUSD));
+		}
+		row.push(
+			truncateKey(block.models.join(', ')),
+			block.isActive ? bold(color('ACTIVE', '32', colorsEnabled), colorsEnabled) : '',
+		);
+		return row;
+	});
+	lines.push(...renderTable(headers, aligns, rows, colorsEnabled));
+	if (totalBlocks > blocks.length) {
+		lines.push(
+			color(
+				`  ${formatNumber(totalBlocks - blocks.length)} earlier blocks not shown (use --top to change).`,
+				'90',
+				colorsEnabled,
+			),
+		);
+	}
+
+	const largest = blocks.reduce((best, block) =>
+		(metric === 'cost' ? block.costUSD > best.costUSD : block.tokens > best.tokens) ? block : best,
+	);
+	lines.push(
+		`  Largest block: ${metric === 'cost' ? formatCurrency(largest.costUSD) : `${formatNumber(largest.tokens)} tokens`}` +
+			` (${formatDateTime(largest.start, timeZone)})`,
+	);
+
+	const active = blocks.find((block) => block.isActive);
+	if (active != null) {
+		lines.push('');
+		lines.push(...renderActiveBlock(active, metric, colorsEnabled, timeZone));
+	}
+	return lines.join('\n');
+}
+
+const RATE_LIMIT_WARN_PERCENT = 70;
+const RATE_LIMIT_DANGER_PERCENT = 90;
+
+function rateLimitCode(percent: number): string {
+	if (percent >= RATE_LIMIT_DANGER_PERCENT) {
+		return '31';
+	}
+	return percent >= RATE_LIMIT_WARN_PERCENT ? '33' : '32';
+}
+
+function formatLimitWindow(minutes: number | null): string {
+	if (minutes == null) {
+		return '?';
+	}
+	return minutes % 1440 === 0 ? `${minutes / 1440}d` : formatDuration(minutes * 60_000);
+}
+
+function renderRateLimitLine(
+	label: string,
+	limit: RateLimitWindow,
+	now: Date,
+	colorsEnabled: boolean,
+	timeZone: string,
+): string {
+	const hasReset = limit.resetsAt != null && limit.resetsAt <= now;
+	const percent = hasReset ? 0 : limit.usedPercent;
+	let resetText = 'reset time unknown';
+	if (limit.resetsAt != null) {
+		resetText = hasReset
+			? `reset at ${formatDateTime(limit.resetsAt, timeZone)} (was ${limit.usedPercent.toFixed(0)}%)`
+			: `resets ${formatDateTime(limit.resetsAt, timeZone)} (in ${formatDuration(limit.resetsAt.getTime() - now.getTime())})`;
+	}
+	const code = rateLimitCode(percent);
+	return (
+		`  ${`${label} (${formatLimitWindow(limit.windowMinutes)})`.padEnd(16)} ` +
+		`${renderProgressBar(30, percent, code, '90', colorsEnabled)} ` +
+		`${color(`${percent.toFixed(0).padStart(3)}%`, code, colorsEnabled)}  ${resetText}`
+	);
+}
+
+function formatPeakCell(percent: number | null, colorsEnabled: boolean): string {
+	if (percent == null) {
+		return '';
+	}
+	const code = rateLimitCode(percent);
+	return `${renderProgressBar(20, percent, code, '90', colorsEnabled)} ${color(`${percent.toFixed(0)}%`, code, colorsEnabled)}`;
+}
+
+export function renderRateLimits(
+	report: RateLimitReport,
+	colorsEnabled: boolean,
+	now = new Date(),
+): string {
+	const style = sourceStyle('codex');
+	const timeZone = report.window.timeZone;
+	const lines = [bold(color('Codex rate limits', style.title, colorsEnabled), colorsEnabled)];
+	const latest = report.latest;
+	if (latest == null) {
+		lines.push('  No rate-limit snapshots in this range.');
+		return lines.join('\n');
+	}
+
+	lines.push(color(`  Last reported ${formatDateTime(latest.timestamp, timeZone)}`, '90', colorsEnabled));
+	const windows: Array<[string, RateLimitWindow | null]> = [
+		['Primary', latest.primary],
+		['Secondary', latest.secondary],
+	];
+	for (const [label, limit] of windows) {
+		if (limit != null) {
+			lines.push(renderRateLimitLine(label, limit, now, colorsEnabled, timeZone));
+		}
+	}
+
+	const nearLimit = windows.filter(
+		([, limit]) =>
+			limit != null &&
+			limit.usedPercent >= RATE_LIMIT_DANGER_PERCENT &&
+			(limit.resetsAt == null || limit.resetsAt > now),
+	);
+	if (nearLimit.length > 0) {
+		lines.push(
+			color(
+				`  Warning: ${nearLimit.map(([label]) => label.toLowerCase()).join(' and ')} window above ${RATE_LIMIT_DANGER_PERCENT}%.`,
+				'31',
+				colorsEnabled,
+			),
+		);
+	}
+
+	const dates = windowDayDates(report.window);
+	const multiYear = dates[0]?.getFullYear() !== dates[dates.length - 1]?.getFullYear();
+	const rows: string[][] = [];
+	report.days.forEach((day, index) => {
+		const date = dates[index];
+		if (date == null || day.snapshotCount === 0) {
+			return;
+		}
+		rows.push([
+			formatShortDate(date, multiYear),
+			formatWeekday(date),
+			formatPeakCell(day.primaryPeakPercent, colorsEnabled),
+			formatPeakCell(day.secondaryPeakPercent, colorsEnabled),
+		]);
+	});
+	lines.push('');
+	lines.push(bold('Daily peak usage', colorsEnabled));
+	lines.push(
+		...renderTable(
+			['Date', 'Day', 'Primary', 'Secondary'],
+			['left', 'left', 'left', 'left'],
+			rows,
+			colorsEnabled,
+		),
+	);
+	return lines.join('\n');
+}
+
+function budgetLevelCode(status: BudgetStatus): string {
+	switch (status.level) {
+		case 'exceeded':
+			return '31';
+		case 'warning':
+			return '33';
+		case 'ok':
+			return '32';
+	}
+}
+
+export function formatBudgetLine(status: BudgetStatus, colorsEnabled: boolean): string {
+	const percent = `${Math.round(status.percent)}%`;
+	return (
+		`${formatCurrency(status.spentUSD)} of ${formatCurrency(status.limitUSD)} ` +
+		`(${color(percent, budgetLevelCode(status), colorsEnabled)})`
+	);
+}
+
+export function renderBudgetWarnings(statuses: BudgetStatus[], colorsEnabled: boolean): string[] {
+	const lines: string[] = [];
+	for (const status of statuses) {
+		if (status.level === 'exceeded') {
+			lines.push(
+				color(
+					`Over budget: ${status.label} spent ${formatCurrency(status.spentUSD)} of its ` +
+						`${formatCurrency(status.limitUSD)} monthly budget (${Math.round(status.percent)}%).`,
+					'31',
+					colorsEnabled,
+				),
+			);
+		} else if (status.level === 'warning') {
+			lines.push(
+				color(
+					`Warning: ${status.label} reached ${Math.round(status.percent)}% of its ` +
+						`${formatCurrency(status.limitUSD)} monthly budget (threshold ${status.threshold}%).`,
+					'33',
+					colorsEnabled,
+				),
+			);
+		}
+	}
+	return lines;
+}
+
+function formatMetricValue(value: number, metric: MetricKind): string {
+	return metric === 'cost' ? formatCurrency(value) : `${formatCompactNumber(value)} tokens`;
+}
+
+export function formatForecastLine(
+	forecast: MonthForecast,
+	colorsEnabled: boolean,
+	budget?: BudgetStatus,
+): string {
+	const point = (forecast.trailingAverage + forecast.weekdayAware) / 2;
+	const low = forecast.metric === 'cost' ? formatCurrency(forecast.low) : formatCompactNumber(forecast.low);
+	let line =
+		`${bold(formatMetricValue(point, forecast.metric), colorsEnabled)} by month end ` +
+		`(range ${low}–${formatMetricValue(forecast.high, forecast.metric)})`;
+	if (budget != null && forecast.metric === 'cost') {
+		if (point > budget.limitUSD) {
+			line += `, ${color('over budget', '31', colorsEnabled)}`;
+		} else if (forecast.high > budget.limitUSD) {
+			line += `, ${color('may exceed budget', '33', colorsEnabled)}`;
+		}
+	}
+	return line;
+}
+
+function formatRatePerMillion(costPerToken: number | undefined): string {
+	if (costPerToken == null) {
+		return '-';
+	}
+	// Cache rates often have a third significant decimal ($0.125 per 1M).
+	const perMillion = Math.round(costPerToken * 1_000_000 * 1000) / 1000;
+	return `$${perMillion.toFixed(perMillion * 100 === Math.round(perMillion * 100) ? 2 : 3)}`;
+}
+
+function formatSearchRate(record: PricingRecord | null): string {
+	const rate = record == null ? undefined : webSearchCostPerRequest(record);
+	return rate == null ? '-' : `${formatCurrency(rate * 1000)}/1K`;
+}
+
+function formatMatchStage(row: ModelPricingRow, colorsEnabled: boolean): string {
+	const { stage, overridden } = row.explanation;
+	if (stage == null) {
+		return color('unpriced', '31', colorsEnabled);
+	}
+	const label = overridden && stage !== 'override' ? `${stage}+override` : stage;
+	return stage === 'fuzzy' ? color(label, '33', colorsEnabled) : label;
+}
+
+export function renderPricingExplain(
+	rows: ModelPricingRow[],
+	colorsEnabled: boolean,
+	strict: boolean,
+): string {
+	const lines = [
+		`${bold('Pricing by model', colorsEnabled)}  ${color('rates in USD per 1M tokens', '90', colorsEnabled)}`,
+	];
+	if (rows.length === 0) {
+		lines.push('  No usage in this range.');
+		return lines.join('\n');
+	}
+
+	const showSnapshot = rows.some((row) => row.explanation.snapshotDate != null);
+	const headers = ['Source', 'Model', 'Entries', 'Match', 'Pricing key', 'Input', 'Output', 'Cache W', 'Cache W 1h', 'Cache R'];
+	const aligns: TableAlign[] = ['left', 'left', 'right', 'left', 'left', 'right', 'right', 'right', 'right', 'right'];
+	const showSearch = rows.some(
+		(row) => row.explanation.record != null && webSearchCostPerRequest(row.explanation.record) != null,
+	);
+	if (showSearch) {
+		headers.push('Search');
+		aligns.push('right');
+	}
+	headers.push('Adj.', 'Cost');
+	aligns.push('right', 'right');
+	if (showSnapshot) {
+		headers.push('Snapshot');
+		aligns.push('left');
+	}
+
+	const tableRows = rows.map((row) => {
+		const { explanation } = row;
+		const record = explanation.record;
+		const cells = [
+			row.source,
+			truncateKey(row.model),
+			formatNumber(row.entryCount),
+			formatMatchStage(row, colorsEnabled),
+			explanation.key == null ? '-' : truncateKey(explanation.key),
+			formatRatePerMillion(record?.input_cost_per_token),
+			formatRatePerMillion(record?.output_cost_per_token),
+			formatRatePerMillion(record?.cache_creation_input_token_cost),
+			formatRatePerMillion(record?.cache_creation_input_token_cost_above_1hr),
+			formatRatePerMillion(record?.cache_read_input_token_cost),
+			...(showSearch ? [formatSearchRate(record)] : []),
+			explanation.discountPercent == null ? '' : `-${explanation.discountPercent}%`,
+			formatCurrency(row.costUSD),
+		];
+		if (showSnapshot) {
+			cells.push(explanation.snapshotDate ?? '');
+		}
+		return cells;
+	});
+	lines.push(...renderTable(headers, aligns, tableRows, colorsEnabled));
+
+	const notes: string[] = [];
+	const logged = rows.reduce((sum, row) => sum + row.loggedCostEntries, 0);
+	if (logged > 0) {
+		notes.push(`${formatNumber(logged)} entries carry a cost logged by the CLI; their cost does not use these rates.`);
+	}
+	const fuzzy = rows.filter((row) => row.explanation.stage === 'fuzzy');
+	if (fuzzy.length > 0) {
+		notes.push(
+			color(
+				`${fuzzy.length} model(s) matched by substring only; check the pricing key, or use --strict-pricing.`,
+				'33',
+				colorsEnabled,
+			),
+		);
+	}
+	const unpriced = rows.filter((row) => row.explanation.stage == null && row.loggedCostEntries < row.entryCount);
+	if (unpriced.length > 0) {
+		const names = unpriced.map((row) => `${row.model} (${formatNumber(row.entryCount)})`).join(', ');
+		notes.push(color(`Unpriced, counted as $0.00: ${names}`, '31', colorsEnabled));
+		notes.push('Add rates under "prices" in the config file or in pricing-overrides.json.');
+	}
+	if (strict) {
+		notes.push(color('Strict pricing: fuzzy matching is disabled.', '90', colorsEnabled));
+	}
+	if (notes.length > 0) {
+		lines.push('');
+		lines.push(...notes.map((note) => `  ${note}`));
+	}
+	return lines.join('\n');
+}
+
+function formatCostSplit(summary: RenderSummary): string {
+	const { costBreakdown } = summary;
+	const parts: Array<[string, number]> = [
+		['input', costBreakdown.inputUSD],
+		['output', costBreakdown.outputUSD],
+		['reasoning', costBreakdown.reasoningOutputUSD],
+		['cache write', costBreakdown.cacheWriteUSD],
+		['cache read', costBreakdown.cacheReadUSD],
+		['web search', costBreakdown.webSearchUSD],
+		['logged', costBreakdown.unattributedUSD],
+	];
+	return parts
+		.filter(([, value]) => value > 0)
+		.map(([label, value]) => {
+			const share = Math.round((value / costBreakdown.totalUSD) * 100);
+			return `${label} ${formatCurrency(value)} (${share}%)`;
+		})
+		.join(' · ');
+}
+
+function formatCacheLine(summary: RenderSummary, metric: MetricKind, colorsEnabled: boolean): string | null {
+	const ratio = cacheHitRatio(summary.cache);
+	if (ratio == null) {
+		return null;
+	}
+	let line = `${Math.round(ratio * 100)}% of input tokens read from cache`;
+	if (metric === 'cost') {
+		const savings = summary.costBreakdown.cacheSavingsUSD;
+		line +=
+			savings >= 0
+				? `, saved ~${color(formatCurrency(savings), '32', colorsEnabled)}`
+				: `, cost ${color(formatCurrency(-savings), '33', colorsEnabled)} more than no caching`;
+	}
+	return line;
+}
+
 export function renderSummaryChart(
 	summary: RenderSummary,
 	metric: MetricKind,
 	colorsEnabled: boolean,
 	referenceMax: number,
+	budget?: BudgetStatus,
+	forecast?: MonthForecast | null,
 ): string {
 	const values = summary.dayBuckets.map((bucket) => (metric === 'cost' ? bucket.costUSD : bucket.tokens));
-	const style = summary.source != null ? SOURCE_STYLES[summary.source] : COMBINED_STYLE;
+	const style = sourceStyle(summary.source);
 	const metricValue = totalByMetric(summary, metric);
 	const denominator = referenceMax > 0 ? referenceMax : metricValue;
-	const percent = denominator === 0 ? 0 : Math.round((metricValue / denominator) * 100);
+	let percent = denominator === 0 ? 0 : Math.round((metricValue / denominator) * 100);
+	if (budget != null) {
+		percent = Math.round(budget.percent);
+	}
+	const fillCode = budget != null ? budgetLevelCode(budget) : style.fill;
+	const usedLabel = budget != null ? `of ${formatCurrency(budget.limitUSD)} budget` : 'used';
 	const terminalWidth = Math.max(80, process.stdout.columns ?? 100);
 	const barWidth = Math.max(24, Math.min(58, terminalWidth - 34));
 
@@ -84,18 +1038,49 @@ export function renderSummaryChart(
 	lines.push(bold(color(summary.label, style.title, colorsEnabled), colorsEnabled));
 
 	if (summary.totalEntries === 0) {
-		lines.push(`  ${renderProgressBar(barWidth, 0, style.fill, style.empty, colorsEnabled)}   0% used`);
+		lines.push(`  ${renderProgressBar(barWidth, 0, fillCode, style.empty, colorsEnabled)}   0% ${usedLabel}`);
 		lines.push(`  Total cost: ${bold(color(formatCurrency(0), '32', colorsEnabled), colorsEnabled)}`);
 		lines.push(`  Total tokens: ${formatNumber(0)}`);
 		lines.push(`  Total entries: ${formatNumber(0)}`);
 		return lines.join('\n');
 	}
 
-	lines.push(`  ${renderProgressBar(barWidth, percent, style.fill, style.empty, colorsEnabled)} ${String(percent).padStart(3, ' ')}% used`);
-	lines.push(`  Daily trend: ${color(renderSparkline(values), style.fill, colorsEnabled)}`);
+	lines.push(
+		`  ${renderProgressBar(barWidth, percent, fillCode, style.empty, colorsEnabled)} ${String(percent).padStart(3, ' ')}% ${usedLabel}`,
+	);
+	const trend = downsampleDays(values, Math.max(16, terminalWidth - 20));
+	const trendPrefix = trend.daysPerChar === 1 ? '  Daily trend: ' : `  Trend (${trend.daysPerChar}-day): `;
+	const sparkline = renderSparkline(trend.values);
+	lines.push(`${trendPrefix}${color(sparkline, style.fill, colorsEnabled)}`);
+	lines.push(
+		`${' '.repeat(trendPrefix.length)}${color(renderTrendAxis(summary.window, sparkline.length), '90', colorsEnabled)}`,
+	);
 	lines.push(`  Total cost: ${bold(color(formatCurrency(summary.totalCostUSD), '32', colorsEnabled), colorsEnabled)}`);
 	lines.push(`  Total tokens: ${formatNumber(summary.totalTokens)}`);
 	lines.push(`  Total entries: ${formatNumber(summary.totalEntries)}`);
+	if (metric === 'cost' && summary.costBreakdown.totalUSD > 0) {
+		lines.push(`  Cost split: ${formatCostSplit(summary)}`);
+	}
+	const cacheLine = formatCacheLine(summary, metric, colorsEnabled);
+	if (cacheLine != null) {
+		lines.push(`  Cache: ${cacheLine}`);
+	}
+	if (summary.webSearchRequests > 0) {
+		const searchCost =
+			metric === 'cost' ? ` · ${color(formatCurrency(summary.costBreakdown.webSearchUSD), '32', colorsEnabled)}` : '';
+		lines.push(`  Web search: ${formatNumber(summary.webSearchRequests)} requests${searchCost}`);
+	}
+	if (forecast != null) {
+		lines.push(`  Forecast: ${formatForecastLine(forecast, colorsEnabled, budget)}`);
+		lines.push(
+			color(
+				`            trailing ${FORECAST_TRAILING_DAYS}d: ${formatMetricValue(forecast.trailingAverage, metric)}, ` +
+					`by weekday: ${formatMetricValue(forecast.weekdayAware, metric)}`,
+				'90',
+				colorsEnabled,
+			),
+		);
+	}
 	if (metric === 'cost' && summary.unknownCostEntries > 0) {
 		lines.push(
 			`  ${color(
@@ -106,5 +1091,16 @@ export function renderSummaryChart(
 		);
 	}
 
+	if (summary.models.length > 0) {
+		lines.push('');
+		lines.push(
+			...renderUsageGroupTable(summary.models, metric, colorsEnabled, {
+				keyHeader: 'Model',
+				fillCode: style.fill,
+				emptyCode: style.empty,
+			}),
+		);
+	}
+
 	return lines.join('\n');
 }
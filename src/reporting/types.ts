@@ -1,12 +1,17 @@
-import type { DayBucket, SourceKind } from '../types.js';
+import type { CacheUsage, CostBreakdown, DateWindow, DayBucket, SourceKind, UsageGroup } from '../types.js';
 
 export type RenderSummary = {
 	label: string;
-	month: string;
+	window: DateWindow;
 	dayBuckets: DayBucket[];
+	models: UsageGroup[];
+	projects: UsageGroup[];
 	totalCostUSD: number;
 	totalTokens: number;
 	totalEntries: number;
 	unknownCostEntries: number;
+	costBreakdown: CostBreakdown;
+	cache: CacheUsage;
+	webSearchRequests: number;
 	source?: SourceKind;
 };
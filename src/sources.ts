@@ -0,0 +1,136 @@
+import type { SourceDetection, SourceKind, UsageEntry } from './types.js';
+import {
+	claudeSourceAdapter,
+	codexSourceAdapter,
+	geminiSourceAdapter,
+	otelSourceAdapter,
+} from './loaders.js';
+import { pathToFileURL } from 'node:url';
+
+export type SourceStyle = {
+	// ANSI SGR codes for the title and the filled/empty parts of bars.
+	title: string;
+	fill: string;
+	empty: string;
+};
+
+// A usage source: where its logs live and how to read them into usage entries. `extraRoots` are
+// the directories configured under `roots.<id>`, searched in addition to the source's defaults.
+export type SourceAdapter = {
+	id: SourceKind;
+	label: string;
+	style: SourceStyle;
+	// Other names accepted by --sources, budgets and the config file.
+	aliases?: string[];
+	detect(extraRoots: string[]): Promise<{ roots: string[]; fileCount: number }>;
+	load(extraRoots: string[]): Promise<UsageEntry[]>;
+};
+
+// Additional log roots per source (from the config file), searched after the defaults.
+export type ExtraRoots = Partial<Record<SourceKind, string[]>>;
+
+export const SOURCE_ID_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+const adapters = new Map<SourceKind, SourceAdapter>();
+
+export function registerSourceAdapter(adapter: SourceAdapter): void {
+	if (!SOURCE_ID_PATTERN.test(adapter.id)) {
+		throw new Error(`Invalid source id "${adapter.id}". Use lowercase letters, digits, "-" or "_".`);
+	}
+	const existing = resolveSourceName(adapter.id);
+	if (existing != null) {
+		throw new Error(`Source "${adapter.id}" is already registered.`);
+	}
+	adapters.set(adapter.id, adapter);
+}
+
+for (const adapter of [claudeSourceAdapter, codexSourceAdapter, geminiSourceAdapter, otelSourceAdapter]) {
+	registerSourceAdapter(adapter);
+}
+
+function isSourceAdapter(value: unknown): value is SourceAdapter {
+	if (value == null || typeof value !== 'object') {
+		return false;
+	}
+	const candidate = value as Record<string, unknown>;
+	const style = candidate.style as Record<string, unknown> | null | undefined;
+	return (
+		typeof candidate.id === 'string' &&
+		typeof candidate.label === 'string' &&
+		typeof style?.title === 'string' &&
+		typeof style.fill === 'string' &&
+		typeof style.empty === 'string' &&
+		(candidate.aliases == null || Array.isArray(candidate.aliases)) &&
+		typeof candidate.detect === 'function' &&
+		typeof candidate.load === 'function'
+	);
+}
+
+// Loads a plugin module (listed under "plugins" in the config file) and registers the adapters
+// it default-exports: a single adapter or a list of them.
+export async function loadSourcePlugin(modulePath: string): Promise<void> {
+	let loaded: { default?: unknown };
+	try {
+		loaded = (await import(pathToFileURL(modulePath).href)) as { default?: unknown };
+	} catch (error) {
+		throw new Error(
+			`Could not load source plugin ${modulePath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	const adapters = Array.isArray(loaded.default) ? loaded.default : [loaded.default];
+	for (const adapter of adapters) {
+		if (!isSourceAdapter(adapter)) {
+			throw new Error(`Source plugin ${modulePath} must default-export a source adapter or a list of them.`);
+		}
+		registerSourceAdapter(adapter);
+	}
+}
+
+export function listSourceAdapters(): SourceAdapter[] {
+	return [...adapters.values()];
+}
+
+export function getSourceAdapter(source: SourceKind): SourceAdapter {
+	const adapter = adapters.get(source);
+	if (adapter == null) {
+		throw new Error(`Unknown source "${source}". Use: ${[...adapters.keys()].join(', ')}`);
+	}
+	return adapter;
+}
+
+// Maps a source id or alias to the registered id.
+export function resolveSourceName(name: string): SourceKind | null {
+	const normalized = name.trim().toLowerCase();
+	for (const adapter of adapters.values()) {
+		if (adapter.id === normalized || adapter.aliases?.includes(normalized) === true) {
+			return adapter.id;
+		}
+	}
+	return null;
+}
+
+export function sourceLabel(source: SourceKind): string {
+	return adapters.get(source)?.label ?? source;
+}
+
+export async function detectSources(extraRoots: ExtraRoots = {}): Promise<SourceDetection[]> {
+	return Promise.all(
+		listSourceAdapters().map(async (adapter) => {
+			const { roots, fileCount } = await adapter.detect(extraRoots[adapter.id] ?? []);
+			return {
+				source: adapter.id,
+				label: adapter.label,
+				available: fileCount > 0,
+				roots,
+				fileCount,
+			};
+		}),
+	);
+}
+
+export async function loadEntriesForSource(
+	source: SourceKind,
+	extraRoots: ExtraRoots = {},
+): Promise<UsageEntry[]> {
+	return getSourceAdapter(source).load(extraRoots[source] ?? []);
+}
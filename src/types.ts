@@ -1,19 +1,51 @@
-export type SourceKind = 'claude' | 'codex';
+import type { PricingExplanation } from './pricing.js';
+
+export type BuiltinSourceKind = 'claude' | 'codex' | 'gemini' | 'otel';
+// Built-in sources plus any registered source adapter (see sources.ts).
+export type SourceKind = BuiltinSourceKind | (string & {});
 export type MetricKind = 'cost' | 'tokens';
+export type GroupKind = 'source' | 'model' | 'project';
+export type FormatKind = 'text' | 'json' | 'csv' | 'tsv';
+export type RowKind = 'days' | 'entries';
+export type ViewKind = 'summary' | 'daily' | 'heatmap' | 'profile' | 'sessions' | 'blocks' | 'limits';
+export type SessionSortKind = 'cost' | 'tokens' | 'start' | 'duration';
+export type BudgetScope = SourceKind | 'total';
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
 
 export type UsageEntry = {
 	source: SourceKind;
 	timestamp: Date;
 	model: string;
 	provider?: string;
+	project?: string;
+	sessionId?: string;
 	inputTokens: number;
 	outputTokens: number;
 	cacheReadTokens: number;
 	cacheWriteTokens: number;
+	// Part of cacheWriteTokens written with Claude's 1-hour TTL, billed above the 5-minute rate.
+	cacheWrite1hTokens: number;
 	reasoningOutputTokens: number;
+	// Server-side web searches, billed per request rather than per token.
+	webSearchRequests: number;
+	// Whether inputTokens already counts cacheReadTokens (Codex, Gemini and other OpenAI-style
+	// logs) or excludes them (Claude).
+	inputIncludesCacheReads: boolean;
 	costUSD: number | null;
 };
 
+export type DateWindow = {
+	// IANA zone that day boundaries are computed in.
+	timeZone: string;
+	start: Date;
+	endExclusive: Date;
+	dayCount: number;
+	since: string;
+	until: string;
+	// Set when the window covers exactly one calendar month.
+	month?: string;
+};
+
 export type SourceDetection = {
 	source: SourceKind;
 	label: string;
@@ -29,13 +61,167 @@ export type DayBucket = {
 	unknownCostEntries: number;
 };
 
+export type UsageGroup = {
+	key: string;
+	entryCount: number;
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheWriteTokens: number;
+	reasoningOutputTokens: number;
+	tokens: number;
+	costUSD: number;
+	unknownCostEntries: number;
+};
+
+// Cost split by token category; the categories add up to `totalUSD`.
+export type CostBreakdown = {
+	totalUSD: number;
+	inputUSD: number;
+	outputUSD: number;
+	reasoningOutputUSD: number;
+	cacheWriteUSD: number;
+	cacheReadUSD: number;
+	webSearchUSD: number;
+	// Logged costs for models without rates to split them by.
+	unattributedUSD: number;
+	// Input cost avoided by caching: cache reads and writes priced as fresh input, minus what they cost.
+	cacheSavingsUSD: number;
+};
+
+export type CacheUsage = {
+	freshInputTokens: number;
+	cacheWriteTokens: number;
+	cacheReadTokens: number;
+};
+
 export type SourceSummary = {
 	source: SourceKind;
 	label: string;
-	month: string;
+	window: DateWindow;
 	dayBuckets: DayBucket[];
+	models: UsageGroup[];
+	projects: UsageGroup[];
 	totalCostUSD: number;
 	totalTokens: number;
 	totalEntries: number;
 	unknownCostEntries: number;
+	costBreakdown: CostBreakdown;
+	cache: CacheUsage;
+	webSearchRequests: number;
+};
+
+export type MonthTotals = {
+	month: string;
+	costUSD: number;
+	tokens: number;
+	entryCount: number;
+	unknownCostEntries: number;
+};
+
+export type SourceTrend = {
+	source?: SourceKind;
+	label: string;
+	months: MonthTotals[];
+};
+
+export type UsageProfile = {
+	source?: SourceKind;
+	label: string;
+	timeZone: string;
+	// Index 0 is 00:00-00:59 in the profile time zone.
+	hours: DayBucket[];
+	// Index 0 is Monday.
+	weekdays: DayBucket[];
+};
+
+export type SessionSummary = UsageGroup & {
+	source: SourceKind;
+	project?: string;
+	models: string[];
+	start: Date;
+	end: Date;
+};
+
+export type BlockProjection = {
+	elapsedMs: number;
+	remainingMs: number;
+	costPerHourUSD: number;
+	tokensPerMinute: number;
+	projectedCostUSD: number;
+	projectedTokens: number;
+};
+
+export type BillingBlock = UsageGroup & {
+	start: Date;
+	end: Date;
+	lastEntryAt: Date;
+	models: string[];
+	isActive: boolean;
+	projection?: BlockProjection;
+};
+
+export type RateLimitWindow = {
+	usedPercent: number;
+	windowMinutes: number | null;
+	resetsAt: Date | null;
+};
+
+// One `rate_limits` reading from a Codex token_count event.
+export type RateLimitSnapshot = {
+	source: SourceKind;
+	timestamp: Date;
+	sessionId?: string;
+	primary: RateLimitWindow | null;
+	secondary: RateLimitWindow | null;
+};
+
+export type RateLimitDay = {
+	snapshotCount: number;
+	primaryPeakPercent: number | null;
+	secondaryPeakPercent: number | null;
+};
+
+export type RateLimitReport = {
+	window: DateWindow;
+	latest: RateLimitSnapshot | null;
+	// One entry per window day, peak usage seen that day.
+	days: RateLimitDay[];
+};
+
+export type BudgetStatus = {
+	scope: BudgetScope;
+	label: string;
+	limitUSD: number;
+	spentUSD: number;
+	percent: number;
+	level: BudgetLevel;
+	// Highest --warn-at percentage that spend has reached, if any.
+	threshold: number | null;
+};
+
+export type MonthForecast = {
+	metric: MetricKind;
+	// Days so far, including today, and whole days left after today. `actual` includes today's
+	// partial spend; the projections also add the unfinished rest of today.
+	elapsedDays: number;
+	remainingDays: number;
+	actual: number;
+	trailingAverage: number;
+	weekdayAware: number;
+	// Roughly an 80% range around the two projections.
+	low: number;
+	high: number;
+};
+
+export type ModelPricingRow = {
+	source: SourceKind;
+	model: string;
+	entryCount: number;
+	tokens: number;
+	costUSD: number;
+	// Entries whose cost came from the log rather than from the pricing lookup.
+	loggedCostEntries: number;
+	// How the most recent entry for this model was priced.
+	explanation: PricingExplanation;
 };
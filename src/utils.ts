@@ -1,19 +1,12 @@
-import type { DayBucket, UsageEntry } from './types.js';
+import type { DateWindow, DayBucket, UsageEntry, UsageGroup } from './types.js';
 import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 
-export const SOURCE_LABELS = {
-	claude: 'Claude',
-	codex: 'Codex',
-} as const;
-
 export type MonthWindow = {
 	month: string;
 	year: number;
 	monthIndex: number;
-	start: Date;
-	endExclusive: Date;
 	daysInMonth: number;
 };
 
@@ -31,23 +24,344 @@ export function parseMonthWindow(monthInput: string): MonthWindow {
 	}
 
 	const monthIndex = month - 1;
-	const start = new Date(year, monthIndex, 1, 0, 0, 0, 0);
-	const endExclusive = new Date(year, monthIndex + 1, 1, 0, 0, 0, 0);
 	const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
 
 	return {
 		month: `${year}-${String(month).padStart(2, '0')}`,
 		year,
 		monthIndex,
-		start,
-		endExclusive,
 		daysInMonth,
 	};
 }
 
-export function currentMonthString(): string {
-	const now = new Date();
-	return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE_DAYS_PATTERN = /^(\d+)([dw])$/i;
+
+export type ZonedParts = {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	// 0 is Sunday, matching Date#getDay.
+	weekday: number;
+};
+
+function zonedFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = zonedFormatters.get(timeZone);
+	if (formatter == null) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			weekday: 'short',
+			hourCycle: 'h23',
+		});
+		zonedFormatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+export function localTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function normalizeTimeZone(input: string): string {
+	const trimmed = input.trim();
+	if (trimmed.toLowerCase() === 'local') {
+		return localTimeZone();
+	}
+	if (trimmed.toLowerCase() === 'utc' || trimmed.toLowerCase() === 'z') {
+		return 'UTC';
+	}
+	try {
+		return zonedFormatter(trimmed).resolvedOptions().timeZone;
+	} catch {
+		throw new Error(`Unknown timezone "${input}". Use an IANA name such as America/Los_Angeles, UTC or local.`);
+	}
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+	const parts: Record<string, string> = {};
+	for (const part of zonedFormatter(timeZone).formatToParts(date)) {
+		parts[part.type] = part.value;
+	}
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		hour: Number(parts.hour),
+		minute: Number(parts.minute),
+		weekday: WEEKDAY_INDEX[parts.weekday ?? ''] ?? 0,
+	};
+}
+
+// Calendar dates are carried as host-local midnight Date values: they name a day, not an
+// instant. Instants only come from zonedStartOfDay/zonedCalendarDate with an explicit zone.
+type DateExpression = {
+	start: Date;
+	end: Date;
+	// Named periods (a month, a week) end on their own; open forms run through today.
+	isPeriod: boolean;
+};
+
+function toCalendarDate(year: number, month: number, day: number): Date {
+	return new Date(year, month - 1, day);
+}
+
+function addCalendarDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function calendarDayNumber(date: Date): number {
+	return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+function startOfCalendarWeek(date: Date): Date {
+	// Weeks start on Monday.
+	const offset = (date.getDay() + 6) % 7;
+	return addCalendarDays(date, -offset);
+}
+
+function calendarDateFromKey(key: string): Date {
+	const [year, month, day] = key.split('-').map(Number);
+	return toCalendarDate(year ?? 1970, month ?? 1, day ?? 1);
+}
+
+function zoneOffsetMs(date: Date, timeZone: string): number {
+	const parts = getZonedParts(date, timeZone);
+	const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+	return wallClock - (date.getTime() - (date.getTime() % 60_000));
+}
+
+export function zonedCalendarDate(date: Date, timeZone: string): Date {
+	const parts = getZonedParts(date, timeZone);
+	return toCalendarDate(parts.year, parts.month, parts.day);
+}
+
+export function zonedStartOfDay(calendarDate: Date, timeZone: string): Date {
+	const wallClock = Date.UTC(calendarDate.getFullYear(), calendarDate.getMonth(), calendarDate.getDate());
+	const guess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+	// Re-read the offset at the guess so days that start inside a DST change land correctly.
+	return new Date(wallClock - zoneOffsetMs(new Date(guess), timeZone));
+}
+
+export function makeDateWindow(start: Date, endInclusive: Date, timeZone: string): DateWindow {
+	if (calendarDayNumber(endInclusive) < calendarDayNumber(start)) {
+		throw new Error(`Invalid range: ${formatDateKey(endInclusive)} is before ${formatDateKey(start)}.`);
+	}
+
+	const nextDay = addCalendarDays(endInclusive, 1);
+	const isCalendarMonth =
+		start.getDate() === 1 &&
+		nextDay.getDate() === 1 &&
+		start.getFullYear() === endInclusive.getFullYear() &&
+		start.getMonth() === endInclusive.getMonth();
+
+	return {
+		timeZone,
+		start: zonedStartOfDay(start, timeZone),
+		endExclusive: zonedStartOfDay(nextDay, timeZone),
+		dayCount: calendarDayNumber(endInclusive) - calendarDayNumber(start) + 1,
+		since: formatDateKey(start),
+		until: formatDateKey(endInclusive),
+		...(isCalendarMonth ? { month: monthKeyForDate(start) } : {}),
+	};
+}
+
+export function monthDateWindow(monthInput: string, timeZone: string): DateWindow {
+	const { year, monthIndex, daysInMonth } = parseMonthWindow(monthInput);
+	return makeDateWindow(
+		toCalendarDate(year, monthIndex + 1, 1),
+		toCalendarDate(year, monthIndex + 1, daysInMonth),
+		timeZone,
+	);
+}
+
+function parseDateExpression(input: string, today: Date): DateExpression {
+	const normalized = input.trim().toLowerCase();
+
+	const isoMatch = ISO_DATE_PATTERN.exec(normalized);
+	if (isoMatch != null) {
+		const year = Number(isoMatch[1]);
+		const month = Number(isoMatch[2]);
+		const day = Number(isoMatch[3]);
+		const date = toCalendarDate(year, month, day);
+		if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+			throw new Error(`Invalid date "${input}". Expected YYYY-MM-DD.`);
+		}
+		return { start: date, end: date, isPeriod: false };
+	}
+
+	if (/^\d{4}-\d{2}$/.test(normalized)) {
+		const month = parseMonthWindow(normalized);
+		return {
+			start: toCalendarDate(month.year, month.monthIndex + 1, 1),
+			end: toCalendarDate(month.year, month.monthIndex + 1, month.daysInMonth),
+			isPeriod: true,
+		};
+	}
+
+	if (/^\d{4}$/.test(normalized)) {
+		const year = Number(normalized);
+		return { start: toCalendarDate(year, 1, 1), end: toCalendarDate(year, 12, 31), isPeriod: true };
+	}
+
+	const relativeMatch = RELATIVE_DAYS_PATTERN.exec(normalized);
+	if (relativeMatch != null) {
+		const amount = Number(relativeMatch[1]);
+		const days = relativeMatch[2] === 'w' ? amount * 7 : amount;
+		if (days < 1) {
+			throw new Error(`Invalid relative range "${input}". Use a positive count such as 7d or 2w.`);
+		}
+		return { start: addCalendarDays(today, -(days - 1)), end: today, isPeriod: false };
+	}
+
+	const year = today.getFullYear();
+	const month = today.getMonth() + 1;
+	switch (normalized) {
+		case 'today':
+			return { start: today, end: today, isPeriod: true };
+		case 'yesterday': {
+			const yesterday = addCalendarDays(today, -1);
+			return { start: yesterday, end: yesterday, isPeriod: true };
+		}
+		case 'this-week': {
+			const start = startOfCalendarWeek(today);
+			return { start, end: addCalendarDays(start, 6), isPeriod: true };
+		}
+		case 'last-week': {
+			const start = addCalendarDays(startOfCalendarWeek(today), -7);
+			return { start, end: addCalendarDays(start, 6), isPeriod: true };
+		}
+		case 'this-month':
+			return {
+				start: toCalendarDate(year, month, 1),
+				end: toCalendarDate(year, month + 1, 0),
+				isPeriod: true,
+			};
+		case 'last-month':
+			return {
+				start: toCalendarDate(year, month - 1, 1),
+				end: toCalendarDate(year, month, 0),
+				isPeriod: true,
+			};
+		case 'this-year':
+			return { start: toCalendarDate(year, 1, 1), end: toCalendarDate(year, 12, 31), isPeriod: true };
+		case 'last-year':
+			return {
+				start: toCalendarDate(year - 1, 1, 1),
+				end: toCalendarDate(year - 1, 12, 31),
+				isPeriod: true,
+			};
+		default:
+			throw new Error(
+				`Invalid date "${input}". Use YYYY-MM-DD, YYYY-MM, YYYY, 7d, 2w, today, yesterday, this-week, last-week, this-month, last-month, this-year or last-year.`,
+			);
+	}
+}
+
+export function parseDateRange(
+	sinceInput: string,
+	untilInput: string | undefined,
+	timeZone: string,
+	now = new Date(),
+): DateWindow {
+	const today = zonedCalendarDate(now, timeZone);
+	const since = parseDateExpression(sinceInput, today);
+	if (untilInput != null && untilInput.trim() !== '') {
+		return makeDateWindow(since.start, parseDateExpression(untilInput, today).end, timeZone);
+	}
+	return makeDateWindow(since.start, since.isPeriod ? since.end : today, timeZone);
+}
+
+export function windowContainsDate(window: DateWindow, date: Date): boolean {
+	return date >= window.start && date < window.endExclusive;
+}
+
+export function windowDayIndex(window: DateWindow, date: Date): number {
+	return (
+		calendarDayNumber(zonedCalendarDate(date, window.timeZone)) -
+		calendarDayNumber(calendarDateFromKey(window.since))
+	);
+}
+
+// Calendar dates for each day of the window, for labelling buckets.
+export function windowDayDates(window: DateWindow): Date[] {
+	const first = calendarDateFromKey(window.since);
+	return Array.from({ length: window.dayCount }, (_, index) => addCalendarDays(first, index));
+}
+
+export function formatShortDate(date: Date, includeYear = false): string {
+	return date.toLocaleString('en-US', {
+		month: 'short',
+		day: 'numeric',
+		...(includeYear ? { year: 'numeric' as const } : {}),
+	});
+}
+
+export function formatDateTime(date: Date, timeZone: string): string {
+	const parts = getZonedParts(date, timeZone);
+	const label = toCalendarDate(parts.year, parts.month, parts.day).toLocaleString('en-US', {
+		month: 'short',
+		day: 'numeric',
+	});
+	return `${label} ${pad2(parts.hour)}:${pad2(parts.minute)}`;
+}
+
+export function formatDuration(milliseconds: number): string {
+	const totalMinutes = Math.floor(Math.max(0, milliseconds) / 60_000);
+	if (totalMinutes < 1) {
+		return '<1m';
+	}
+	const hours = Math.floor(totalMinutes / 60);
+	const minutes = totalMinutes % 60;
+	if (hours === 0) {
+		return `${minutes}m`;
+	}
+	return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+export function formatWindowHuman(window: DateWindow): string {
+	if (window.month != null) {
+		return formatMonthHuman(window.month);
+	}
+	const start = calendarDateFromKey(window.since);
+	const end = calendarDateFromKey(window.until);
+	if (window.dayCount === 1) {
+		return formatShortDate(end, true);
+	}
+	const sameYear = start.getFullYear() === end.getFullYear();
+	return `${formatShortDate(start, !sameYear)} – ${formatShortDate(end, true)}`;
+}
+
+export function monthKeyForDate(calendarDate: Date): string {
+	return `${calendarDate.getFullYear()}-${pad2(calendarDate.getMonth() + 1)}`;
+}
+
+export function monthRange(endMonth: string, count: number): string[] {
+	const { year, monthIndex } = parseMonthWindow(endMonth);
+	return Array.from({ length: count }, (_, index) =>
+		monthKeyForDate(new Date(year, monthIndex - (count - 1 - index), 1)),
+	);
+}
+
+export function formatMonthShort(monthInput: string): string {
+	const { year, monthIndex } = parseMonthWindow(monthInput);
+	return new Date(year, monthIndex, 1).toLocaleString('en-US', {
+		month: 'short',
+		year: 'numeric',
+	});
+}
+
+export function currentMonthString(timeZone: string): string {
+	return monthKeyForDate(zonedCalendarDate(new Date(), timeZone));
 }
 
 export function formatMonthHuman(monthInput: string): string {
@@ -146,6 +460,10 @@ export function pad2(value: number): string {
 	return String(value).padStart(2, '0');
 }
 
+export function formatDateKey(date: Date): string {
+	return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
 export function formatCurrency(value: number): string {
 	return new Intl.NumberFormat('en-US', {
 		style: 'currency',
@@ -159,14 +477,21 @@ export function formatNumber(value: number): string {
 	return new Intl.NumberFormat('en-US').format(Math.round(value));
 }
 
+export function formatCompactNumber(value: number): string {
+	return new Intl.NumberFormat('en-US', {
+		notation: 'compact',
+		maximumFractionDigits: 1,
+	}).format(value);
+}
+
 export function totalTokens(entry: UsageEntry): number {
 	return (
 		entry.inputTokens + entry.outputTokens + entry.cacheReadTokens + entry.cacheWriteTokens
 	);
 }
 
-export function makeEmptyDayBuckets(daysInMonth: number): DayBucket[] {
-	return Array.from({ length: daysInMonth }, () => ({
+export function makeEmptyDayBuckets(dayCount: number): DayBucket[] {
+	return Array.from({ length: dayCount }, () => ({
 		costUSD: 0,
 		tokens: 0,
 		entryCount: 0,
@@ -174,12 +499,19 @@ export function makeEmptyDayBuckets(daysInMonth: number): DayBucket[] {
 	}));
 }
 
-export function monthContainsDate(month: MonthWindow, date: Date): boolean {
-	return date >= month.start && date < month.endExclusive;
-}
-
-export function monthDayIndex(date: Date): number {
-	return date.getDate() - 1;
+export function makeEmptyUsageGroup(key: string): UsageGroup {
+	return {
+		key,
+		entryCount: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		cacheReadTokens: 0,
+		cacheWriteTokens: 0,
+		reasoningOutputTokens: 0,
+		tokens: 0,
+		costUSD: 0,
+		unknownCostEntries: 0,
+	};
 }
 
 export function getHomeDirectory(): string {
@@ -211,6 +543,35 @@ export function splitCommaList(input: string): string[] {
 		.filter((part) => part !== '');
 }
 
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	for (const char of pattern.trim()) {
+		if (char === '*') {
+			source += '.*';
+		} else if (char === '?') {
+			source += '.';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`, 'i');
+}
+
+export function tildifyPath(filePath: string): string {
+	const home = getHomeDirectory();
+	if (filePath === home) {
+		return '~';
+	}
+	return filePath.startsWith(`${home}${path.sep}`) ? `~${filePath.slice(home.length)}` : filePath;
+}
+
+export function expandHomePath(filePath: string): string {
+	if (filePath === '~') {
+		return getHomeDirectory();
+	}
+	return filePath.startsWith('~/') ? path.join(getHomeDirectory(), filePath.slice(2)) : filePath;
+}
+
 export function ansiEnabled(noColorFlag: boolean): boolean {
 	return !noColorFlag && process.env.NO_COLOR == null;
 }